@@ -1,11 +1,31 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { AnalysisResult, AppStep, ProcessedVideoData } from './types';
-import { runGeminiAnalysis, uploadFileToGemini } from './services/geminiService';
+import { AnalysisResult, AppStep, CaptionTrack, ChannelProfile, MediaInfo, PlatformId, ProcessedVideoData, UsageSummary } from './types';
+import { UploadResult, deleteRemoteFile, getActiveRemoteFile, getSegmentCount, runGeminiAnalysis, uploadFileToGemini } from './services/geminiService';
+import { AnalysisProvider, createAnalysisProvider } from './services/analysisProvider';
+import { isAbortError } from './services/retry';
+import { formatCost, formatTokens, getModelPrice } from './services/pricing';
+import { AnalysisCheckpoint, countCompletedSegments, deleteCheckpoint, getFileSignature, loadLatestCheckpoint, saveCheckpoint } from './services/checkpointStore';
+import { loadAnalysisSettings } from './services/analysisSettings';
+import { getChannelProfile, loadChannelProfiles, loadLastProfileId, saveLastProfileId } from './services/channelProfiles';
+import { getChecks, loadLastCheckIds, saveLastCheckIds } from './services/checkRegistry';
+import { loadGlossaries } from './services/glossaries';
+import { SUBJECTS, Subject, SubjectChoice, detectSubject, getSubjectLabel, loadLastSubject, resolveSubject, saveLastSubject } from './services/subjects';
+import { parseCaptions } from './services/captions';
+import { probeMedia } from './services/mediaProbe';
+import { AudioAnalysis, analyzeAudio } from './services/audioAnalysis';
+import { attachFrameEvidence } from './services/frameSampler';
+import { PLATFORM_PROFILES, PlatformProfile, getPlatformLabel, getPlatformProfile, loadLastPlatform, saveLastPlatform, toPlatformId } from './services/platformProfiles';
+import { indexAnalysisFindings, indexGlossary, recordCorrection, recordIntendedUsage, retrieveKnowledge } from './services/knowledgeStore';
 import { AnalysisProgress } from './components/AnalysisProgress';
-import { IssueCard, MarketingPanel } from './components/DashboardComponents';
+import { ConfidenceFilter, CoverageWarning, IssueCard, MarketingPanel, ProcessingNotices, ValidationWarnings, matchesConfidence } from './components/DashboardComponents';
 import { ExportModal } from './components/ExportModal';
 import { SettingsModal } from './components/SettingsModal';
+import { ChannelProfilesModal } from './components/ChannelProfilesModal';
+import { GlossaryModal } from './components/GlossaryModal';
+import { CheckSuitePicker } from './components/CheckSuitePicker';
+import { PlatformRulesModal } from './components/PlatformRulesModal';
 import { VideoWorkspace, VideoWorkspaceRef } from './components/VideoWorkspace';
+import { TranscriptPanel } from './components/TranscriptPanel';
 import { LoginPage } from './components/LoginPage';
 import { 
   UploadCloud, 
@@ -21,7 +41,10 @@ import {
   X,
   LogOut,
   User,
-  Link as LinkIcon
+  Link as LinkIcon,
+  History,
+  BookOpen,
+  Subtitles
 } from 'lucide-react';
 
 // --- Header ---
@@ -87,27 +110,98 @@ const Header = ({ userName, onLogout, onOpenSettings }: { userName: string, onLo
 };
 
 // --- Upload Step ---
-const UploadStep = ({ onUpload }: { onUpload: (file: File, platform: string, title?: string, channelUrl?: string) => void }) => {
+// Saved channel URL per network; the YouTube and Instagram keys are also set from Settings
+const CHANNEL_URL_FIELDS: Record<PlatformProfile['network'], { label: string; placeholder: string }> = {
+  youtube: { label: 'YouTube Channel URL', placeholder: 'https://youtube.com/@...' },
+  instagram: { label: 'Instagram Profile URL', placeholder: 'https://instagram.com/...' },
+  linkedin: { label: 'LinkedIn Page URL', placeholder: 'https://linkedin.com/company/...' },
+  x: { label: 'X Profile URL', placeholder: 'https://x.com/...' }
+};
+
+interface UploadDetails {
+  platform: PlatformId;
+  title?: string;
+  channelUrl?: string;
+  channelProfileId?: string;
+  subject?: Subject;
+  checkIds?: string[];
+  captions?: CaptionTrack;
+}
+
+interface UploadStepProps {
+  onUpload: (file: File, details: UploadDetails) => void;
+  resumeCheckpoint: AnalysisCheckpoint | null;
+  onResume: (file: File) => void;
+  onDiscardResume: () => void;
+}
+
+const UploadStep = ({ onUpload, resumeCheckpoint, onResume, onDiscardResume }: UploadStepProps) => {
   const [dragActive, setDragActive] = useState(false);
-  const [platform, setPlatform] = useState('YouTube');
+  const [platform, setPlatform] = useState<PlatformId>(loadLastPlatform);
+  const [isPlatformRulesOpen, setIsPlatformRulesOpen] = useState(false);
   const [title, setTitle] = useState('');
   const [channelUrl, setChannelUrl] = useState('');
+  const [profiles, setProfiles] = useState<ChannelProfile[]>(loadChannelProfiles);
+  const [profileId, setProfileId] = useState<string>(() => getChannelProfile(loadLastProfileId()).id);
+  const [isProfilesOpen, setIsProfilesOpen] = useState(false);
+  const [subjectChoice, setSubjectChoice] = useState<SubjectChoice>(loadLastSubject);
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
+  const [checkIds, setCheckIds] = useState<string[]>(loadLastCheckIds);
+  const [captions, setCaptions] = useState<CaptionTrack | null>(null);
+  const [captionError, setCaptionError] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const captionInputRef = useRef<HTMLInputElement>(null);
+  const resumeInputRef = useRef<HTMLInputElement>(null);
 
-  // Load saved channel URL on mount or when platform changes
+  const network = PLATFORM_PROFILES.find(p => p.id === platform)?.network || 'youtube';
+  const urlField = CHANNEL_URL_FIELDS[network];
+
+  // Load saved channel URL on mount or when the platform's network changes
   useEffect(() => {
-    const isInsta = platform.includes('Instagram');
-    const key = isInsta ? 'pw_default_instagram_url' : 'pw_default_youtube_url';
-    const savedUrl = localStorage.getItem(key);
+    const savedUrl = localStorage.getItem(`pw_default_${network}_url`);
     if (savedUrl) setChannelUrl(savedUrl);
-  }, [platform]);
+  }, [network]);
 
   // Save channel URL to local storage when changed
   const handleUrlChange = (val: string) => {
     setChannelUrl(val);
-    const isInsta = platform.includes('Instagram');
-    const key = isInsta ? 'pw_default_instagram_url' : 'pw_default_youtube_url';
-    localStorage.setItem(key, val);
+    localStorage.setItem(`pw_default_${network}_url`, val);
+  };
+
+  const handlePlatformChange = (id: PlatformId) => {
+    setPlatform(id);
+    saveLastPlatform(id);
+  };
+
+  const handleProfileChange = (id: string) => {
+    setProfileId(id);
+    saveLastProfileId(id);
+  };
+
+  const handleSubjectChange = (value: SubjectChoice) => {
+    setSubjectChoice(value);
+    saveLastSubject(value);
+  };
+
+  const detectedSubject = subjectChoice === 'auto' && title ? detectSubject(title) : null;
+
+  const handleChecksChange = (ids: string[]) => {
+    setCheckIds(ids);
+    saveLastCheckIds(ids);
+  };
+
+  // Captions are parsed locally; only the cues are sent to the model, inside the prompt
+  const handleCaptionFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const captionFile = e.target.files?.[0];
+    e.target.value = '';
+    if (!captionFile) return;
+    try {
+      setCaptions(parseCaptions(await captionFile.text(), captionFile.name));
+      setCaptionError(null);
+    } catch (err: any) {
+      setCaptions(null);
+      setCaptionError(err.message || "Could not read the caption file.");
+    }
   };
 
   const handleDrag = (e: React.DragEvent) => {
@@ -127,7 +221,8 @@ const UploadStep = ({ onUpload }: { onUpload: (file: File, platform: string, tit
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
       const file = e.dataTransfer.files[0];
       const autoTitle = file.name.replace(/\.[^/.]+$/, "").replace(/_/g, " ");
-      onUpload(file, platform, title || autoTitle, channelUrl);
+      const subject = resolveSubject(subjectChoice, title || autoTitle);
+      onUpload(file, { platform, title: title || autoTitle, channelUrl, channelProfileId: profileId, subject, checkIds, captions: captions || undefined });
     }
   };
 
@@ -136,7 +231,8 @@ const UploadStep = ({ onUpload }: { onUpload: (file: File, platform: string, tit
     if (e.target.files && e.target.files[0]) {
       const file = e.target.files[0];
       const autoTitle = file.name.replace(/\.[^/.]+$/, "").replace(/_/g, " ");
-      onUpload(file, platform, title || autoTitle, channelUrl);
+      const subject = resolveSubject(subjectChoice, title || autoTitle);
+      onUpload(file, { platform, title: title || autoTitle, channelUrl, channelProfileId: profileId, subject, checkIds, captions: captions || undefined });
     }
   };
 
@@ -147,10 +243,49 @@ const UploadStep = ({ onUpload }: { onUpload: (file: File, platform: string, tit
           Frame-perfect video QA for educators
         </h1>
         <p className="mb-8 text-lg text-gray-600">
-          Upload your video. We'll catch spelling errors, fact-check physics, and optimize for algorithms.
+          Upload your video. We'll catch spelling errors, check formulas and facts, and optimize for algorithms.
         </p>
       </div>
 
+      {/* Resume Interrupted Analysis */}
+      {resumeCheckpoint && (
+        <div className="mb-6 flex flex-col gap-3 rounded-lg border border-blue-200 bg-blue-50 p-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-start space-x-3">
+            <History className="mt-0.5 text-pw-blue" size={20} />
+            <div>
+              <p className="text-sm font-semibold text-pw-blue">
+                Resume analysis of {resumeCheckpoint.videoTitle} ({countCompletedSegments(resumeCheckpoint)}/{resumeCheckpoint.totalSegments} segments done)
+              </p>
+              <p className="text-xs text-gray-600">Select {resumeCheckpoint.fileName} again to continue. Only the missing segments will be analyzed.</p>
+            </div>
+          </div>
+          <div className="flex space-x-2">
+            <input 
+              ref={resumeInputRef}
+              type="file" 
+              className="hidden" 
+              accept="video/mp4,video/webm,video/ogg,video/quicktime"
+              onChange={(e) => {
+                if (e.target.files && e.target.files[0]) onResume(e.target.files[0]);
+                e.target.value = '';
+              }}
+            />
+            <button 
+              onClick={() => resumeInputRef.current?.click()}
+              className="rounded-lg bg-pw-blue px-4 py-2 text-sm font-semibold text-white hover:bg-blue-800"
+            >
+              Resume
+            </button>
+            <button 
+              onClick={onDiscardResume}
+              className="rounded-lg border border-gray-200 bg-white px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-50"
+            >
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+
       <div 
         className={`relative flex min-h-[300px] flex-col items-center justify-center rounded-2xl border-2 border-dashed transition-all
           ${dragActive ? 'border-pw-orange bg-orange-50' : 'border-gray-300 bg-white hover:border-gray-400'}
@@ -192,31 +327,37 @@ const UploadStep = ({ onUpload }: { onUpload: (file: File, platform: string, tit
         {/* Platform Selection */}
         <div className="rounded-lg bg-white p-4 shadow-sm border border-gray-100">
            <label className="mb-2 block text-xs font-semibold uppercase text-gray-500">Target Platform</label>
-           <div className="relative">
-             <select 
-               value={platform}
-               onChange={(e) => setPlatform(e.target.value)}
-               className="w-full appearance-none rounded-md border border-gray-200 bg-gray-50 p-2.5 text-sm font-medium text-gray-700 focus:border-pw-orange focus:outline-none"
+           <div className="flex space-x-2">
+             <div className="relative flex-1">
+               <select 
+                 value={platform}
+                 onChange={(e) => handlePlatformChange(e.target.value as PlatformId)}
+                 className="w-full appearance-none rounded-md border border-gray-200 bg-gray-50 p-2.5 text-sm font-medium text-gray-700 focus:border-pw-orange focus:outline-none"
+               >
+                 {PLATFORM_PROFILES.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+               </select>
+               <ChevronDown className="absolute right-3 top-3 text-gray-400" size={16} />
+             </div>
+             <button 
+               onClick={() => setIsPlatformRulesOpen(true)}
+               className="rounded-md border border-gray-200 bg-white px-4 text-sm font-medium text-gray-700 hover:bg-gray-50"
              >
-               <option>YouTube</option>
-               <option>YouTube Shorts</option>
-               <option>Instagram Reels</option>
-             </select>
-             <ChevronDown className="absolute right-3 top-3 text-gray-400" size={16} />
+               Rules
+             </button>
            </div>
         </div>
 
         {/* Channel Link Input */}
         <div className="rounded-lg bg-white p-4 shadow-sm border border-gray-100">
            <label className="mb-2 block text-xs font-semibold uppercase text-gray-500">
-             {platform.includes('Instagram') ? 'Instagram Profile URL' : 'YouTube Channel URL'}
+             {urlField.label}
            </label>
            <div className="relative">
               <input 
                 type="url"
                 value={channelUrl}
                 onChange={(e) => handleUrlChange(e.target.value)}
-                placeholder={platform.includes('Instagram') ? "https://instagram.com/..." : "https://youtube.com/@..."}
+                placeholder={urlField.placeholder}
                 className="w-full rounded-md border border-gray-200 bg-gray-50 pl-8 p-2.5 text-sm font-medium text-gray-700 focus:border-pw-orange focus:outline-none transition-colors"
               />
               <div className="absolute left-2.5 top-2.5 text-gray-400">
@@ -225,6 +366,99 @@ const UploadStep = ({ onUpload }: { onUpload: (file: File, platform: string, tit
            </div>
         </div>
 
+        {/* Subject (selects the glossary and factual rule set) */}
+        <div className="rounded-lg bg-white p-4 shadow-sm border border-gray-100">
+           <label className="mb-2 block text-xs font-semibold uppercase text-gray-500">Subject</label>
+           <div className="flex space-x-2">
+             <div className="relative flex-1">
+               <select 
+                 value={subjectChoice}
+                 onChange={(e) => handleSubjectChange(e.target.value as SubjectChoice)}
+                 className="w-full appearance-none rounded-md border border-gray-200 bg-gray-50 p-2.5 text-sm font-medium text-gray-700 focus:border-pw-orange focus:outline-none"
+               >
+                 <option value="auto">Auto-detect from title</option>
+                 {SUBJECTS.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+               </select>
+               <ChevronDown className="absolute right-3 top-3 text-gray-400" size={16} />
+             </div>
+             <button 
+               onClick={() => setIsGlossaryOpen(true)}
+               className="rounded-md border border-gray-200 bg-white px-4 text-sm font-medium text-gray-700 hover:bg-gray-50"
+             >
+               Glossary
+             </button>
+           </div>
+           {subjectChoice === 'auto' && (
+             <p className="mt-1.5 text-xs text-gray-500">
+               {detectedSubject ? `Detected: ${getSubjectLabel(detectedSubject)}` : 'Detected from the title or file name; falls back to Physics.'}
+             </p>
+           )}
+        </div>
+
+        {/* Channel Profile */}
+        <div className="rounded-lg bg-white p-4 shadow-sm border border-gray-100">
+           <label className="mb-2 block text-xs font-semibold uppercase text-gray-500">Channel Profile</label>
+           <div className="flex space-x-2">
+             <div className="relative flex-1">
+               <select 
+                 value={profileId}
+                 onChange={(e) => handleProfileChange(e.target.value)}
+                 className="w-full appearance-none rounded-md border border-gray-200 bg-gray-50 pl-8 p-2.5 text-sm font-medium text-gray-700 focus:border-pw-orange focus:outline-none"
+               >
+                 {profiles.map(p => <option key={p.id} value={p.id}>{p.channelName}</option>)}
+               </select>
+               <div className="absolute left-2.5 top-2.5 text-gray-400">
+                 <BookOpen size={16} />
+               </div>
+               <ChevronDown className="absolute right-3 top-3 text-gray-400" size={16} />
+             </div>
+             <button 
+               onClick={() => setIsProfilesOpen(true)}
+               className="rounded-md border border-gray-200 bg-white px-4 text-sm font-medium text-gray-700 hover:bg-gray-50"
+             >
+               Manage
+             </button>
+           </div>
+        </div>
+
+        {/* Check Suite */}
+        <div className="rounded-lg bg-white p-4 shadow-sm border border-gray-100 sm:col-span-2">
+           <label className="mb-2 block text-xs font-semibold uppercase text-gray-500">Checks</label>
+           <CheckSuitePicker checkIds={checkIds} onChange={handleChecksChange} />
+        </div>
+
+        {/* Caption File (enables the caption checks) */}
+        <div className="rounded-lg bg-white p-4 shadow-sm border border-gray-100 sm:col-span-2">
+           <label className="mb-2 block text-xs font-semibold uppercase text-gray-500">Captions (Optional)</label>
+           <div className="flex items-center space-x-2">
+             <div className="flex flex-1 items-center rounded-md border border-gray-200 bg-gray-50 p-2.5 text-sm font-medium text-gray-700">
+               <Subtitles size={16} className="mr-2 text-gray-400" />
+               <span className="truncate">
+                 {captions ? `${captions.fileName} (${captions.cues.length} cues)` : 'No caption file attached'}
+               </span>
+             </div>
+             <button 
+               onClick={() => captionInputRef.current?.click()}
+               className="rounded-md border border-gray-200 bg-white px-4 py-2.5 text-sm font-medium text-gray-700 hover:bg-gray-50"
+             >
+               {captions ? 'Replace' : 'Attach .srt / .vtt'}
+             </button>
+             {captions && (
+               <button 
+                 onClick={() => setCaptions(null)}
+                 className="rounded-md border border-gray-200 bg-white p-2.5 text-gray-500 hover:bg-red-50 hover:text-red-600"
+                 aria-label="Remove caption file"
+               >
+                 <X size={16} />
+               </button>
+             )}
+             <input ref={captionInputRef} type="file" accept=".srt,.vtt,text/vtt" className="hidden" onChange={handleCaptionFile} />
+           </div>
+           <p className={`mt-2 text-xs ${captionError ? 'text-red-600' : 'text-gray-500'}`}>
+             {captionError || 'Proofreads the captions against the speech and lets you export a corrected file.'}
+           </p>
+        </div>
+
         {/* Video Title */}
         <div className="rounded-lg bg-white p-4 shadow-sm border border-gray-100 sm:col-span-2">
            <label className="mb-2 block text-xs font-semibold uppercase text-gray-500">Video Title (Optional)</label>
@@ -237,6 +471,28 @@ const UploadStep = ({ onUpload }: { onUpload: (file: File, platform: string, tit
            />
         </div>
       </div>
+
+      <PlatformRulesModal 
+        isOpen={isPlatformRulesOpen}
+        onClose={() => setIsPlatformRulesOpen(false)}
+        platformId={platform}
+      />
+
+      <ChannelProfilesModal 
+        isOpen={isProfilesOpen}
+        onClose={() => setIsProfilesOpen(false)}
+        selectedId={profileId}
+        onSaved={(saved, selectedId) => {
+          setProfiles(saved);
+          handleProfileChange(selectedId);
+        }}
+      />
+
+      <GlossaryModal 
+        isOpen={isGlossaryOpen}
+        onClose={() => setIsGlossaryOpen(false)}
+        subject={resolveSubject(subjectChoice, title)}
+      />
     </div>
   );
 };
@@ -257,22 +513,31 @@ const parseTimestamp = (timeStr: string): number => {
   }
 };
 
-const FitItem = ({ label, pass, value }: { label: string; pass: boolean; value: string }) => (
-  <div className="rounded-lg border border-gray-100 bg-white p-3 shadow-sm">
+// `pass` is omitted for purely informational measurements
+const FitItem = ({ label, pass, value, title }: { label: string; pass?: boolean; value: string; title?: string }) => (
+  <div className="rounded-lg border border-gray-100 bg-white p-3 shadow-sm" title={title}>
     <div className="flex items-center justify-between mb-1">
       <span className="text-[10px] font-bold uppercase tracking-wider text-gray-500">{label}</span>
-      {pass ? (
+      {pass === undefined ? null : pass ? (
         <CheckCircle2 size={14} className="text-green-600" />
       ) : (
         <X size={14} className="text-red-500" />
       )}
     </div>
-    <p className={`text-sm font-bold ${pass ? 'text-gray-900' : 'text-red-600'}`}>
+    <p className={`text-sm font-bold ${pass === false ? 'text-red-600' : 'text-gray-900'}`}>
       {value}
     </p>
   </div>
 );
 
+const formatMediaDuration = (seconds: number): string => {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}` : `${m}:${s.toString().padStart(2, '0')}`;
+};
+
 // --- Main App Component ---
 export default function App() {
   const [step, setStep] = useState<AppStep>('login');
@@ -284,25 +549,40 @@ export default function App() {
   // App State
   const [file, setFile] = useState<File | null>(null);
   const [videoTitle, setVideoTitle] = useState('');
-  const [platform, setPlatform] = useState('YouTube');
+  const [platform, setPlatform] = useState<PlatformId>('youtube');
   const [channelUrl, setChannelUrl] = useState(''); // New State
+  const [channelProfileId, setChannelProfileId] = useState<string | null>(null);
+  const [subject, setSubject] = useState<Subject>('physics');
+  const [checkIds, setCheckIds] = useState<string[]>([]);
+  const [captions, setCaptions] = useState<CaptionTrack | undefined>(undefined);
+  const [mediaInfo, setMediaInfo] = useState<MediaInfo | null>(null);
   
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [results, setResults] = useState<AnalysisResult | null>(null);
   const [isExportOpen, setIsExportOpen] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false); // New State
-  const [activeTab, setActiveTab] = useState<'issues' | 'marketing'>('issues');
+  const [activeTab, setActiveTab] = useState<'issues' | 'marketing' | 'transcript'>('issues');
   const [error, setError] = useState<string | null>(null);
   
   // Analysis State
   const [processedVideo, setProcessedVideo] = useState<ProcessedVideoData | null>(null);
   const [analysisStatus, setAnalysisStatus] = useState<string>("");
   const [isAiProcessing, setIsAiProcessing] = useState(false);
+  const [liveUsage, setLiveUsage] = useState<UsageSummary | null>(null);
+
+  // Checkpoint State (resume after crash/refresh)
+  const [pendingCheckpoint, setPendingCheckpoint] = useState<AnalysisCheckpoint | null>(null);
+  const [resumeFrom, setResumeFrom] = useState<AnalysisCheckpoint | null>(null);
+
+  // Cancellation for the in-flight upload/analysis
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Workspace Ref for jumping to timestamps
   const workspaceRef = useRef<VideoWorkspaceRef>(null);
 
   // Dashboard State
+  const [confidenceFilter, setConfidenceFilter] = useState<ConfidenceFilter>('all');
+  const [currentTime, setCurrentTime] = useState(0);
   const [collapsedSections, setCollapsedSections] = useState<Record<string, boolean>>({
     critical: false,
     major: false,
@@ -315,7 +595,7 @@ export default function App() {
     if (storedAuth) {
       try {
         const { name, key } = JSON.parse(storedAuth);
-        if (name && key) {
+        if (name && (key || loadAnalysisSettings().provider === 'fixture')) {
           setUserName(name);
           setApiKey(key);
           setStep('upload');
@@ -343,6 +623,7 @@ export default function App() {
 
   // Handle Logout
   const handleLogout = () => {
+    abortControllerRef.current?.abort();
     localStorage.removeItem('pw_proofvision_auth');
     setUserName('');
     setApiKey('');
@@ -365,6 +646,17 @@ export default function App() {
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
   }, [step]);
 
+  // Offer to resume an interrupted analysis whenever the upload screen is shown
+  useEffect(() => {
+    if (step !== 'upload') return;
+    loadLatestCheckpoint().then(setPendingCheckpoint);
+  }, [step]);
+
+  // Abort any in-flight analysis on unmount
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
   // Cleanup video URL
   useEffect(() => {
     return () => {
@@ -373,14 +665,20 @@ export default function App() {
   }, [videoUrl]);
 
   // STEP 1: Handle Upload & Preview
-  const handleUpload = async (uploadedFile: File, selectedPlatform: string, title?: string, url?: string) => {
+  const handleUpload = async (uploadedFile: File, details: UploadDetails) => {
     setFile(uploadedFile);
-    setPlatform(selectedPlatform);
-    setVideoTitle(title || uploadedFile.name);
-    setChannelUrl(url || '');
+    setPlatform(details.platform);
+    setVideoTitle(details.title || uploadedFile.name);
+    setChannelUrl(details.channelUrl || '');
+    setChannelProfileId(details.channelProfileId || null);
+    setSubject(details.subject || 'physics');
+    setCheckIds(details.checkIds || []);
+    setCaptions(details.captions);
+    setMediaInfo(null);
     setError(null);
     setProcessedVideo(null); 
     setIsAiProcessing(false);
+    setResumeFrom(null);
     
     // Create Object URL for playback
     if (videoUrl) URL.revokeObjectURL(videoUrl);
@@ -394,42 +692,204 @@ export default function App() {
     });
     setStep('analyzing');
     setAnalysisStatus("Video ready for upload");
+
+    // Measure the file locally while the user reviews the preview
+    probeMedia(uploadedFile)
+      .then(setMediaInfo)
+      .catch(err => console.warn("Media probe failed:", err));
+  };
+
+  // STEP 1b: Resume an interrupted analysis (user re-selects the same local file for playback)
+  const handleResume = (selectedFile: File) => {
+    const checkpoint = pendingCheckpoint;
+    if (!checkpoint) return;
+    if (getFileSignature(selectedFile) !== checkpoint.id) {
+      setError(`That is not the same file. Please select ${checkpoint.fileName} to resume.`);
+      return;
+    }
+    handleUpload(selectedFile, {
+      platform: toPlatformId(checkpoint.platform),
+      title: checkpoint.videoTitle,
+      channelUrl: checkpoint.channelUrl,
+      channelProfileId: checkpoint.channelProfileId,
+      subject: checkpoint.subject,
+      checkIds: checkpoint.checkIds,
+      captions: checkpoint.captions
+    });
+    setResumeFrom(checkpoint);
+    setAnalysisStatus(`Ready to resume (${countCompletedSegments(checkpoint)}/${checkpoint.totalSegments} segments done)`);
+  };
+
+  const handleDiscardResume = async () => {
+    const checkpoint = pendingCheckpoint;
+    if (!checkpoint) return;
+    setPendingCheckpoint(null);
+    await deleteCheckpoint(checkpoint.id);
+    const settings = loadAnalysisSettings();
+    if (settings.provider === checkpoint.providerId && apiKey) {
+      await deleteRemoteFile(createAnalysisProvider(settings, apiKey), checkpoint.remoteFileName);
+    }
   };
 
   // STEP 2: Trigger AI Analysis (File API Strategy)
   const handleStartAnalysis = async () => {
-    if (!file || !apiKey) return;
-    
+    if (!file) return;
+    // Provider is chosen in Settings (live Gemini or offline fixtures); only Gemini needs a key
+    const settings = loadAnalysisSettings();
+    if (!apiKey && settings.provider !== 'fixture') return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setError(null);
     setIsAiProcessing(true);
+    setLiveUsage(null);
     setAnalysisStatus("Initializing upload...");
 
+    let provider: AnalysisProvider | null = null;
+    let remoteFileName: string | null = null;
+    let checkpoint: AnalysisCheckpoint | null = null;
+
     try {
-       // Phase 1: Upload to Google (File API)
-       const { uri, duration } = await uploadFileToGemini(file, apiKey, (status) => setAnalysisStatus(status));
+       provider = createAnalysisProvider(settings, apiKey);
+
+       // Phase 1: Upload to Google (File API), unless the resumed upload is still usable
+       let uploaded: UploadResult | null = null;
+       if (resumeFrom && resumeFrom.providerId === provider.id) {
+         setAnalysisStatus("Checking previous upload...");
+         const previous = await getActiveRemoteFile(provider, resumeFrom.remoteFileName, controller.signal);
+         if (previous) uploaded = { ...previous, reused: true };
+       }
+       if (!uploaded) {
+         uploaded = await uploadFileToGemini(file, provider, (status) => setAnalysisStatus(status), controller.signal);
+       }
+       const { name, uri, duration } = uploaded;
+       // Only clean up on cancel what this run uploaded; reused files stay available for next time
+       if (!uploaded.reused) remoteFileName = name;
+
+       // Checkpoint every completed segment; reuse a resumed run's segments if the windows still line up
+       const overlapSeconds = resumeFrom?.overlapSeconds ?? settings.overlapSeconds;
+       const canReuseSegments = !!resumeFrom && resumeFrom.duration === duration;
+       const activeCheckpoint: AnalysisCheckpoint = {
+         id: resumeFrom?.id || getFileSignature(file),
+         fileName: file.name,
+         fileSize: file.size,
+         videoTitle,
+         platform,
+         channelUrl,
+         channelProfileId: channelProfileId || undefined,
+         subject,
+         checkIds,
+         captions,
+         providerId: provider.id,
+         remoteFileName: name,
+         fileUri: uri,
+         duration,
+         overlapSeconds,
+         totalSegments: getSegmentCount(duration),
+         segments: canReuseSegments ? { ...resumeFrom.segments } : {},
+         updatedAt: Date.now()
+       };
+       checkpoint = activeCheckpoint;
+       await saveCheckpoint(activeCheckpoint);
+
+       // Platform fit is measured from the file itself when the browser can read it
+       const media = mediaInfo || await probeMedia(file).catch(() => null);
+
+       // Loudness, silences and clipping are measured rather than left to the model. Decoding holds
+       // the whole file in memory, so it only runs when the audio check was picked.
+       let audio: AudioAnalysis | null = null;
+       let audioNotice: string | null = null;
+       if (checkIds.includes('audio') && media?.hasAudio !== false) {
+         setAnalysisStatus("Measuring audio loudness...");
+         const outcome = await analyzeAudio(file, { signal: controller.signal, durationSeconds: media?.durationSeconds });
+         audio = outcome.analysis;
+         audioNotice = outcome.skipped ?? null;
+       }
+
+       // Pull this channel's prior findings and glossary terms that share vocabulary with the title and subject
+       setAnalysisStatus("Retrieving channel knowledge...");
+       const channelProfile = getChannelProfile(channelProfileId);
+       const glossary = loadGlossaries()[subject];
+       await indexGlossary(channelProfile.id, getSubjectLabel(subject), glossary);
+       const knowledgeSnippets = await retrieveKnowledge(channelProfile.id, `${videoTitle} ${getSubjectLabel(subject)}`);
        
        // Phase 2: Analyze
        const data = await runGeminiAnalysis(
+         provider,
          uri,
          videoTitle,
          platform,
          duration,
-         apiKey,
          channelUrl, // Pass the channel URL for context
-         (status) => setAnalysisStatus(status)
+         (status) => setAnalysisStatus(status),
+         {
+           concurrency: settings.concurrency,
+           overlapSeconds,
+           signal: controller.signal,
+           completedSegments: { ...activeCheckpoint.segments },
+           price: getModelPrice(provider.model),
+           onUsageUpdate: setLiveUsage,
+           channelProfile,
+           knowledgeSnippets,
+           subject,
+           glossary,
+           checks: getChecks(checkIds),
+           verifyFindings: settings.verifyFindings,
+           transcribe: settings.transcribe,
+           captions,
+           media: media || undefined,
+           audio: audio || undefined,
+           platformProfile: getPlatformProfile(platform),
+           onSegmentComplete: (index, result) => {
+             activeCheckpoint.segments[index] = result;
+             saveCheckpoint(activeCheckpoint);
+           }
+         }
        );
        
-       setResults(data);
+       // Phase 3: Snap on-screen findings to scene cuts and grab the flagged frames
+       let finalData = audioNotice ? { ...data, notices: [...(data.notices || []), audioNotice] } : data;
+       if (settings.sampleFrames) {
+         try {
+           finalData = await attachFrameEvidence(file, finalData, { signal: controller.signal, onStatusUpdate: setAnalysisStatus });
+         } catch (frameError) {
+           if (isAbortError(frameError)) throw frameError;
+           console.warn("Frame sampling failed:", frameError);
+           finalData = { ...finalData, notices: [...(finalData.notices || []), "Evidence frames could not be captured in this browser."] };
+         }
+       }
+
+       await deleteCheckpoint(activeCheckpoint.id);
+       await indexAnalysisFindings(channelProfile.id, videoTitle, finalData.issues);
+       setResumeFrom(null);
+       setResults(finalData);
        setStep('dashboard');
     } catch (err: any) {
-      console.error(err);
-      setError(err.message || "Analysis failed.");
+      if (isAbortError(err) || controller.signal.aborted) {
+        // Upload-phase cancels clean up inside uploadFileToGemini; analysis-phase ones here
+        if (provider && remoteFileName) await deleteRemoteFile(provider, remoteFileName);
+        if (checkpoint) await deleteCheckpoint(checkpoint.id);
+        setResumeFrom(null);
+        setAnalysisStatus("Analysis cancelled");
+      } else {
+        console.error(err);
+        setError(err.message || "Analysis failed.");
+      }
       setIsAiProcessing(false);
+    } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
     }
   };
 
-  const handleJump = (timestamp: string) => {
+  const handleCancelAnalysis = () => {
+    if (!abortControllerRef.current) return;
+    setAnalysisStatus("Cancelling...");
+    abortControllerRef.current.abort();
+  };
+
+  const handleJump = (timestamp: string, endTimestamp?: string) => {
     const seconds = parseTimestamp(timestamp);
-    workspaceRef.current?.jumpTo(seconds);
+    workspaceRef.current?.jumpTo(seconds, endTimestamp ? parseTimestamp(endTimestamp) : undefined);
   };
 
   const toggleSection = (section: string) => {
@@ -438,13 +898,24 @@ export default function App() {
 
   const handleIssueFix = (id: string) => {
     if (!results) return;
+    const issue = results.issues.find(i => i.id === id);
+    if (issue) recordCorrection(getChannelProfile(channelProfileId).id, videoTitle, issue);
     const updatedIssues = results.issues.map(i => 
       i.id === id ? { ...i, fixed: true } : i
     );
     setResults({ ...results, issues: updatedIssues });
   };
 
+  // False positive: drop it and remember not to flag it for this channel again
+  const handleIssueIntended = (id: string) => {
+    if (!results) return;
+    const issue = results.issues.find(i => i.id === id);
+    if (issue) recordIntendedUsage(getChannelProfile(channelProfileId).id, videoTitle, issue);
+    setResults({ ...results, issues: results.issues.filter(i => i.id !== id) });
+  };
+
   const handleReAnalyze = () => {
+    abortControllerRef.current?.abort();
     setResults(null);
     setFile(null);
     setVideoUrl(null);
@@ -453,9 +924,10 @@ export default function App() {
   }
 
   // Group Issues
-  const criticalIssues = results?.issues.filter(i => i.severity === 'critical') || [];
-  const majorIssues = results?.issues.filter(i => i.severity === 'major') || [];
-  const minorIssues = results?.issues.filter(i => ['minor', 'suggestion'].includes(i.severity)) || [];
+  const visibleIssues = results?.issues.filter(i => matchesConfidence(i, confidenceFilter)) || [];
+  const criticalIssues = visibleIssues.filter(i => i.severity === 'critical');
+  const majorIssues = visibleIssues.filter(i => i.severity === 'major');
+  const minorIssues = visibleIssues.filter(i => ['minor', 'suggestion'].includes(i.severity));
 
   if (step === 'login') {
     return <LoginPage onLogin={handleLogin} />;
@@ -475,7 +947,14 @@ export default function App() {
           </div>
         )}
 
-        {step === 'upload' && <UploadStep onUpload={handleUpload} />}
+        {step === 'upload' && (
+          <UploadStep 
+            onUpload={handleUpload} 
+            resumeCheckpoint={pendingCheckpoint}
+            onResume={handleResume}
+            onDiscardResume={handleDiscardResume}
+          />
+        )}
         
         {step === 'analyzing' && file && (
           <AnalysisProgress 
@@ -483,8 +962,11 @@ export default function App() {
             videoData={processedVideo}
             videoUrl={videoUrl}
             onStartAnalysis={handleStartAnalysis}
+            onCancelAnalysis={handleCancelAnalysis}
             currentStatus={analysisStatus}
             isAiProcessing={isAiProcessing}
+            resumeProgress={resumeFrom ? { done: countCompletedSegments(resumeFrom), total: resumeFrom.totalSegments } : null}
+            usage={liveUsage}
           />
         )}
 
@@ -498,6 +980,16 @@ export default function App() {
                    <ShieldCheck size={16} />
                    <span>Score: {results.score}/100</span>
                  </div>
+                 {results.usage && (
+                   <div 
+                     className="hidden md:flex items-center space-x-2 rounded-full bg-gray-100 px-3 py-1 text-xs font-medium text-gray-600"
+                     title={`${results.usage.promptTokens.toLocaleString()} prompt + ${results.usage.outputTokens.toLocaleString()} output tokens (${results.usage.model})`}
+                   >
+                     <span>{formatTokens(results.usage.totalTokens)} tokens</span>
+                     <span className="text-gray-300">|</span>
+                     <span>{formatCost(results.usage.estimatedCostUsd)}</span>
+                   </div>
+                 )}
                </div>
                <div className="flex items-center space-x-3">
                  <button onClick={handleReAnalyze} className="hidden sm:flex items-center space-x-2 rounded-lg border border-gray-200 px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-50">
@@ -518,6 +1010,11 @@ export default function App() {
                 ref={workspaceRef}
                 videoUrl={videoUrl}
                 issues={results.issues}
+                loudness={results.audio?.loudnessLane}
+                sceneChanges={results.sceneChanges}
+                safeZone={getPlatformProfile(results.platform).safeZone}
+                platformLabel={getPlatformLabel(results.platform)}
+                onTimeUpdate={setCurrentTime}
               />
 
               {/* Right: Issues & Analysis */}
@@ -536,12 +1033,43 @@ export default function App() {
                   >
                     Marketing Analysis
                   </button>
+                  <button 
+                    onClick={() => setActiveTab('transcript')}
+                    className={`flex-1 py-3 text-sm font-semibold transition-colors ${activeTab === 'transcript' ? 'border-b-2 border-pw-orange text-pw-orange' : 'text-gray-500 hover:text-gray-700'}`}
+                  >
+                    Transcript
+                  </button>
                 </div>
 
                 {/* Scrollable Content */}
                 <div className="custom-scrollbar flex-1 overflow-y-auto p-4 sm:p-6">
                   {activeTab === 'issues' ? (
                     <div className="space-y-6">
+
+                      {/* Coverage Gaps */}
+                      <CoverageWarning failedSegments={results.failedSegments || []} />
+                      <ValidationWarnings warnings={results.validationWarnings || []} />
+                      <ProcessingNotices notices={results.notices || []} />
+
+                      {/* Confidence Filter */}
+                      <div className="flex items-center justify-between">
+                        <span className="text-xs text-gray-500">
+                          Showing {visibleIssues.length} of {results.issues.length}
+                        </span>
+                        <div className="relative">
+                          <select 
+                            value={confidenceFilter}
+                            onChange={(e) => setConfidenceFilter(e.target.value as ConfidenceFilter)}
+                            className="appearance-none rounded-md border border-gray-200 bg-gray-50 py-1.5 pl-3 pr-8 text-xs font-medium text-gray-700 focus:border-pw-orange focus:outline-none"
+                          >
+                            <option value="all">All confidence levels</option>
+                            <option value="high">High confidence (80%+)</option>
+                            <option value="medium">Medium and up (50%+)</option>
+                            <option value="low">Low confidence only</option>
+                          </select>
+                          <ChevronDown className="absolute right-2 top-2 text-gray-400" size={14} />
+                        </div>
+                      </div>
                       
                       {/* Critical Section */}
                       {criticalIssues.length > 0 && (
@@ -562,6 +1090,7 @@ export default function App() {
                               issue={issue} 
                               onJump={handleJump} 
                               onFix={handleIssueFix} 
+                              onIntended={handleIssueIntended}
                             />
                           ))}
                         </div>
@@ -586,6 +1115,7 @@ export default function App() {
                                 issue={issue} 
                                 onJump={handleJump} 
                                 onFix={handleIssueFix} 
+                                onIntended={handleIssueIntended}
                               />
                           ))}
                         </div>
@@ -610,25 +1140,57 @@ export default function App() {
                                 issue={issue} 
                                 onJump={handleJump} 
                                 onFix={handleIssueFix} 
+                                onIntended={handleIssueIntended}
                               />
                           ))}
                         </div>
                       )}
 
                     </div>
+                  ) : activeTab === 'transcript' ? (
+                    <TranscriptPanel 
+                      lines={results.transcript || []}
+                      issues={results.issues}
+                      currentTime={currentTime}
+                      onJump={handleJump}
+                    />
                   ) : (
                     <div className="space-y-6">
                       <MarketingPanel data={results.marketing} />
                       
                       <div className="rounded-lg bg-white p-6 shadow-sm">
                         <h3 className="mb-4 flex items-center font-heading text-lg font-semibold text-pw-blue">
-                          <Youtube size={20} className="mr-2 text-red-600" /> Platform Fit: {results.platform}
+                          <Youtube size={20} className="mr-2 text-red-600" /> Platform Fit: {getPlatformLabel(results.platform)}
                         </h3>
                         <div className="grid grid-cols-2 gap-4">
-                           <FitItem label="Aspect Ratio" pass={results.platformFit.aspectRatio} value={results.platformFit.aspectRatio ? "16:9" : "Invalid"} />
-                           <FitItem label="Duration" pass={results.platformFit.duration} value={results.duration || "N/A"} />
+                           <FitItem 
+                             label="Aspect Ratio" 
+                             pass={results.platformFit.aspectRatio} 
+                             value={results.media ? `${results.media.aspectRatio} (${results.media.width}x${results.media.height})` : results.platformFit.aspectRatio ? "OK" : "Invalid"} 
+                             title={results.media ? "Measured from the file" : "Judged by the model"}
+                           />
+                           <FitItem 
+                             label="Duration" 
+                             pass={results.platformFit.duration} 
+                             value={results.media ? formatMediaDuration(results.media.durationSeconds) : results.duration || "N/A"} 
+                             title={results.media ? "Measured from the file" : "Judged by the model"}
+                           />
                            <FitItem label="Captions" pass={results.platformFit.captions} value={results.platformFit.captions ? "Detected" : "Missing"} />
                            <FitItem label="Thumbnail" pass={results.platformFit.thumbnail !== 'low'} value={results.platformFit.thumbnail.toUpperCase()} />
+                           {results.media && (
+                             <>
+                               <FitItem label="Frame Rate" value={results.media.frameRate ? `${results.media.frameRate} fps` : "Unknown"} />
+                               <FitItem 
+                                 label="Format" 
+                                 value={[results.media.container, results.media.videoCodec].filter(Boolean).join(' / ')} 
+                               />
+                               <FitItem 
+                                 label="Audio" 
+                                 pass={results.media.hasAudio === null ? undefined : results.media.hasAudio} 
+                                 value={results.media.hasAudio === null ? "Unknown" : results.media.hasAudio ? (results.media.audioCodec || "Present") : "No audio track"} 
+                               />
+                             </>
+                           )}
                         </div>
                       </div>
                     </div>
@@ -1,14 +1,20 @@
-import React from 'react';
-import { Loader2, Zap, FileVideo, CheckCircle2, BrainCircuit, HardDrive, Video, UploadCloud, Cpu } from 'lucide-react';
-import { ProcessedVideoData } from '../types';
+import React, { useState } from 'react';
+import { Loader2, Zap, FileVideo, CheckCircle2, BrainCircuit, HardDrive, Video, UploadCloud, Cpu, XCircle, Coins } from 'lucide-react';
+import { ProcessedVideoData, UsageSummary } from '../types';
+import { loadAnalysisSettings } from '../services/analysisSettings';
+import { getSegmentCount } from '../services/geminiService';
+import { estimateAnalysisUsage, formatCost, formatTokens, priceUsage } from '../services/pricing';
 
 interface AnalysisProgressProps {
   fileName: string;
   videoData: ProcessedVideoData | null;
   videoUrl: string | null;
   onStartAnalysis: () => void;
+  onCancelAnalysis: () => void;
   currentStatus: string;
   isAiProcessing: boolean;
+  resumeProgress?: { done: number; total: number } | null; // Set when continuing from a checkpoint
+  usage?: UsageSummary | null; // Running token/cost totals while analyzing
 }
 
 export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({ 
@@ -16,11 +22,24 @@ export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({
   videoData,
   videoUrl,
   onStartAnalysis, 
+  onCancelAnalysis,
   currentStatus,
-  isAiProcessing
+  isAiProcessing,
+  resumeProgress,
+  usage
 }) => {
 
   const isReady = !!videoData;
+  const [previewDuration, setPreviewDuration] = useState(0);
+
+  // Pre-flight estimate from the local file's duration and the model chosen in Settings
+  const estimate = React.useMemo(() => {
+    if (!previewDuration) return null;
+    const settings = loadAnalysisSettings();
+    const model = settings.provider === 'fixture' ? 'fixture' : settings.model;
+    const segments = getSegmentCount(`${Math.ceil(previewDuration)}s`);
+    return priceUsage(estimateAnalysisUsage(previewDuration, segments, settings.transcribe, settings.verifyFindings), model);
+  }, [previewDuration]);
 
   return (
     <div className="flex min-h-[calc(100vh-64px)] w-full items-center justify-center bg-gray-50 p-6">
@@ -56,6 +75,12 @@ export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({
                 <div className="mt-3 grid grid-cols-2 gap-3">
                    <StatBadge icon={<UploadCloud size={14}/>} label="Strategy" value="File API" />
                    <StatBadge icon={<Video size={14}/>} label="Mode" value="High Res" />
+                   {estimate && (
+                     <>
+                       <StatBadge icon={<Cpu size={14}/>} label="Est. Tokens" value={`~${formatTokens(estimate.totalTokens)}`} />
+                       <StatBadge icon={<Coins size={14}/>} label="Est. Cost" value={`~${formatCost(estimate.estimatedCostUsd)}`} />
+                     </>
+                   )}
                 </div>
               )}
             </div>
@@ -84,6 +109,12 @@ export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({
                         isActive={currentStatus.includes("Analyzing")} 
                         isDone={false} 
                     />
+                    {usage && usage.totalTokens > 0 && (
+                      <div className="grid grid-cols-2 gap-3 pt-2">
+                        <StatBadge icon={<Cpu size={14}/>} label="Tokens Used" value={formatTokens(usage.totalTokens)} />
+                        <StatBadge icon={<Coins size={14}/>} label="Cost So Far" value={formatCost(usage.estimatedCostUsd)} />
+                      </div>
+                    )}
                  </div>
                ) : (
                  <p className="text-sm text-gray-500 mt-1">Waiting to start...</p>
@@ -108,18 +139,29 @@ export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({
                  ) : (
                    <>
                      <Zap className="fill-current" />
-                     <span>Start File API Upload</span>
+                     <span>{resumeProgress ? `Resume Analysis (${resumeProgress.done}/${resumeProgress.total} done)` : 'Start File API Upload'}</span>
                    </>
                  )}
                </button>
             ) : (
-               <div className="flex w-full items-center justify-center space-x-3 rounded-xl bg-gray-100 px-6 py-4 font-medium text-gray-500">
-                  <Loader2 className="animate-spin" />
-                  <span>Processing Large File...</span>
+               <div className="flex w-full space-x-3">
+                 <div className="flex flex-1 items-center justify-center space-x-3 rounded-xl bg-gray-100 px-6 py-4 font-medium text-gray-500">
+                    <Loader2 className="animate-spin" />
+                    <span>Processing Large File...</span>
+                 </div>
+                 <button 
+                   onClick={onCancelAnalysis}
+                   disabled={currentStatus === "Cancelling..."}
+                   className="flex items-center justify-center space-x-2 rounded-xl border border-red-200 bg-white px-4 py-4 font-semibold text-red-600 transition-colors hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-50"
+                   aria-label="Cancel analysis"
+                 >
+                   <XCircle size={18} />
+                   <span>Cancel</span>
+                 </button>
                </div>
             )}
             <p className="mt-3 text-center text-xs text-gray-400">
-               {isAiProcessing ? currentStatus : "Uses Google File API for 200MB+ support"}
+               {isAiProcessing || currentStatus === "Analysis cancelled" ? currentStatus : "Uses Google File API for 200MB+ support"}
             </p>
           </div>
 
@@ -135,6 +177,7 @@ export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({
                autoPlay
                muted
                loop
+               onLoadedMetadata={(e) => setPreviewDuration(e.currentTarget.duration || 0)}
              />
            ) : (
              <div className="flex flex-col items-center text-gray-500">
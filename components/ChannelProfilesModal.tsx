@@ -0,0 +1,279 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Save, Plus, Trash2, Upload, Download, Loader2 } from 'lucide-react';
+import { ChannelProfile } from '../types';
+import {
+  exportChannelProfiles,
+  importChannelProfiles,
+  loadChannelProfiles,
+  saveChannelProfiles,
+  uniqueProfileId
+} from '../services/channelProfiles';
+
+interface ChannelProfilesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  selectedId: string | null;
+  onSaved: (profiles: ChannelProfile[], selectedId: string) => void;
+}
+
+const emptyProfile = (id: string): ChannelProfile => ({
+  id,
+  channelName: '',
+  topPerformingPatterns: { hookDuration: '', avgViewDuration: '', winningFormats: [], commonPitfalls: [] },
+  brandGuidelines: { tone: '', visuals: '', colors: [] }
+});
+
+// Lists are edited as one item per line
+const toLines = (items: string[]) => items.join('\n');
+const fromLines = (text: string) => text.split(/\n|,/).map(s => s.trim()).filter(Boolean);
+
+export const ChannelProfilesModal: React.FC<ChannelProfilesModalProps> = ({
+  isOpen,
+  onClose,
+  selectedId,
+  onSaved
+}) => {
+  const [profiles, setProfiles] = useState<ChannelProfile[]>([]);
+  const [activeId, setActiveId] = useState<string>('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  // Load on open
+  useEffect(() => {
+    if (isOpen) {
+      const loaded = loadChannelProfiles();
+      setProfiles(loaded);
+      setActiveId(loaded.find(p => p.id === selectedId)?.id || loaded[0].id);
+      setMessage(null);
+    }
+  }, [isOpen, selectedId]);
+
+  if (!isOpen) return null;
+
+  const active = profiles.find(p => p.id === activeId) || profiles[0];
+
+  const updateActive = (changes: (profile: ChannelProfile) => ChannelProfile) => {
+    setProfiles(prev => prev.map(p => p.id === active.id ? { ...changes(p), updatedAt: Date.now() } : p));
+  };
+
+  const handleNew = () => {
+    const id = uniqueProfileId('new-channel', profiles);
+    setProfiles(prev => [...prev, { ...emptyProfile(id), channelName: 'New Channel' }]);
+    setActiveId(id);
+  };
+
+  const handleDelete = () => {
+    if (profiles.length <= 1) {
+      setMessage("At least one profile is required.");
+      return;
+    }
+    const remaining = profiles.filter(p => p.id !== active.id);
+    setProfiles(remaining);
+    setActiveId(remaining[0].id);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { profiles: merged, imported } = importChannelProfiles(await file.text(), profiles);
+      setProfiles(merged);
+      setMessage(`Imported ${imported} profile${imported > 1 ? 's' : ''}. Save to keep them.`);
+    } catch (err: any) {
+      setMessage(`Import failed: ${err.message}`);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportChannelProfiles(profiles)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'PW_ProofVision_Channel_Profiles.json';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (profiles.some(p => !p.channelName.trim())) {
+      setMessage("Every profile needs a channel name.");
+      return;
+    }
+    setIsSaving(true);
+    saveChannelProfiles(profiles);
+    onSaved(profiles, active.id);
+    setIsSaving(false);
+    onClose();
+  };
+
+  const inputClass = "w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-pw-orange focus:ring-1 focus:ring-pw-orange outline-none transition-colors";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" aria-modal="true" role="dialog">
+      <div className="flex max-h-[90vh] w-full max-w-4xl flex-col animate-in fade-in zoom-in-95 duration-200 rounded-xl bg-white shadow-2xl">
+        <div className="flex items-center justify-between border-b p-5">
+          <h3 className="font-heading text-xl font-semibold text-pw-blue">Channel Profiles</h3>
+          <button
+            onClick={onClose}
+            className="rounded-full p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600"
+            aria-label="Close channel profiles"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex min-h-0 flex-1">
+          {/* Profile List */}
+          <div className="flex w-56 flex-col border-r border-gray-100 bg-gray-50 p-3">
+            <div className="custom-scrollbar flex-1 space-y-1 overflow-y-auto">
+              {profiles.map(p => (
+                <button
+                  key={p.id}
+                  onClick={() => setActiveId(p.id)}
+                  className={`w-full truncate rounded-md px-3 py-2 text-left text-sm ${p.id === active.id ? 'bg-white font-semibold text-pw-blue shadow-sm' : 'text-gray-600 hover:bg-white'}`}
+                >
+                  {p.channelName || 'Untitled'}
+                </button>
+              ))}
+            </div>
+            <div className="mt-3 grid grid-cols-2 gap-2 border-t border-gray-200 pt-3">
+              <button onClick={handleNew} className="flex items-center justify-center rounded-md border border-gray-200 bg-white py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-100">
+                <Plus size={12} className="mr-1" /> New
+              </button>
+              <button onClick={handleDelete} className="flex items-center justify-center rounded-md border border-gray-200 bg-white py-1.5 text-xs font-medium text-red-600 hover:bg-red-50">
+                <Trash2 size={12} className="mr-1" /> Delete
+              </button>
+              <button onClick={() => importRef.current?.click()} className="flex items-center justify-center rounded-md border border-gray-200 bg-white py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-100">
+                <Upload size={12} className="mr-1" /> Import
+              </button>
+              <button onClick={handleExport} className="flex items-center justify-center rounded-md border border-gray-200 bg-white py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-100">
+                <Download size={12} className="mr-1" /> Export
+              </button>
+              <input ref={importRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            </div>
+          </div>
+
+          {/* Profile Editor */}
+          {active && (
+            <form onSubmit={handleSave} className="custom-scrollbar flex-1 space-y-4 overflow-y-auto p-6">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">Channel Name</label>
+                <input
+                  type="text"
+                  value={active.channelName}
+                  onChange={(e) => updateActive(p => ({ ...p, channelName: e.target.value }))}
+                  className={inputClass}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700">Tone</label>
+                  <input
+                    type="text"
+                    value={active.brandGuidelines.tone}
+                    onChange={(e) => updateActive(p => ({ ...p, brandGuidelines: { ...p.brandGuidelines, tone: e.target.value } }))}
+                    placeholder="Energetic, Mentorship, Authentic"
+                    className={inputClass}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700">Brand Colors</label>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="text"
+                      value={active.brandGuidelines.colors.join(', ')}
+                      onChange={(e) => updateActive(p => ({ ...p, brandGuidelines: { ...p.brandGuidelines, colors: fromLines(e.target.value) } }))}
+                      placeholder="#FF6B35, #FFFFFF"
+                      className={inputClass}
+                    />
+                    <div className="flex -space-x-1">
+                      {active.brandGuidelines.colors.slice(0, 4).map(color => (
+                        <span key={color} className="h-5 w-5 rounded-full border border-gray-300" style={{ backgroundColor: color }} />
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">Visual Guidelines</label>
+                <textarea
+                  rows={2}
+                  value={active.brandGuidelines.visuals}
+                  onChange={(e) => updateActive(p => ({ ...p, brandGuidelines: { ...p.brandGuidelines, visuals: e.target.value } }))}
+                  placeholder="Clear hand-written notes, High contrast overlays"
+                  className={inputClass}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700">Common Pitfalls <span className="text-xs text-gray-400">(one per line)</span></label>
+                  <textarea
+                    rows={4}
+                    defaultValue={toLines(active.topPerformingPatterns.commonPitfalls)}
+                    key={`pitfalls-${active.id}`}
+                    onBlur={(e) => updateActive(p => ({ ...p, topPerformingPatterns: { ...p.topPerformingPatterns, commonPitfalls: fromLines(e.target.value) } }))}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700">Winning Formats <span className="text-xs text-gray-400">(one per line)</span></label>
+                  <textarea
+                    rows={4}
+                    defaultValue={toLines(active.topPerformingPatterns.winningFormats)}
+                    key={`formats-${active.id}`}
+                    onBlur={(e) => updateActive(p => ({ ...p, topPerformingPatterns: { ...p.topPerformingPatterns, winningFormats: fromLines(e.target.value) } }))}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700">Hook Window</label>
+                  <input
+                    type="text"
+                    value={active.topPerformingPatterns.hookDuration}
+                    onChange={(e) => updateActive(p => ({ ...p, topPerformingPatterns: { ...p.topPerformingPatterns, hookDuration: e.target.value } }))}
+                    placeholder="0-15 seconds"
+                    className={inputClass}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700">Avg. View Duration</label>
+                  <input
+                    type="text"
+                    value={active.topPerformingPatterns.avgViewDuration}
+                    onChange={(e) => updateActive(p => ({ ...p, topPerformingPatterns: { ...p.topPerformingPatterns, avgViewDuration: e.target.value } }))}
+                    placeholder="8:45"
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              {message && <p className="text-xs font-medium text-pw-blue">{message}</p>}
+
+              <div className="pt-2">
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="flex w-full items-center justify-center rounded-lg bg-pw-blue py-2.5 font-bold text-white shadow-sm hover:bg-blue-800 disabled:opacity-70 transition-all"
+                >
+                  {isSaving ? <Loader2 className="animate-spin mr-2" size={18} /> : <Save className="mr-2" size={18} />}
+                  Save Profiles
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
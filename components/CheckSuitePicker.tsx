@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { ChevronDown, Save, Trash2 } from 'lucide-react';
+import {
+  CHECK_REGISTRY,
+  CheckPreset,
+  deleteCheckPreset,
+  loadCheckPresets,
+  saveCheckPreset
+} from '../services/checkRegistry';
+
+interface CheckSuitePickerProps {
+  checkIds: string[];
+  onChange: (checkIds: string[]) => void;
+}
+
+const sameChecks = (a: string[], b: string[]) =>
+  a.length === b.length && a.every(id => b.includes(id));
+
+export const CheckSuitePicker: React.FC<CheckSuitePickerProps> = ({ checkIds, onChange }) => {
+  const [presets, setPresets] = useState<CheckPreset[]>(loadCheckPresets);
+  const [presetName, setPresetName] = useState('');
+
+  const activePreset = presets.find(p => sameChecks(p.checkIds, checkIds));
+
+  const toggleCheck = (id: string) => {
+    const next = checkIds.includes(id) ? checkIds.filter(c => c !== id) : [...checkIds, id];
+    // At least one check must stay on, otherwise there is nothing to ask the model
+    if (next.length > 0) onChange(next);
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    saveCheckPreset(name, checkIds);
+    setPresets(loadCheckPresets());
+    setPresetName('');
+  };
+
+  const handleDeletePreset = () => {
+    if (!activePreset || activePreset.builtIn) return;
+    deleteCheckPreset(activePreset.id);
+    setPresets(loadCheckPresets());
+  };
+
+  return (
+    <div>
+      <div className="mb-3 flex items-center space-x-2">
+        <div className="relative flex-1">
+          <select
+            value={activePreset?.id || ''}
+            onChange={(e) => {
+              const preset = presets.find(p => p.id === e.target.value);
+              if (preset) onChange(preset.checkIds);
+            }}
+            className="w-full appearance-none rounded-md border border-gray-200 bg-gray-50 p-2.5 text-sm font-medium text-gray-700 focus:border-pw-orange focus:outline-none"
+          >
+            {!activePreset && <option value="">Custom selection</option>}
+            {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <ChevronDown className="absolute right-3 top-3 text-gray-400" size={16} />
+        </div>
+        {activePreset && !activePreset.builtIn && (
+          <button
+            onClick={handleDeletePreset}
+            className="rounded-md border border-gray-200 bg-white p-2.5 text-gray-500 hover:bg-red-50 hover:text-red-600"
+            aria-label={`Delete preset ${activePreset.name}`}
+          >
+            <Trash2 size={16} />
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {CHECK_REGISTRY.map(check => {
+          const enabled = checkIds.includes(check.id);
+          return (
+            <button
+              key={check.id}
+              onClick={() => toggleCheck(check.id)}
+              title={check.description}
+              className={`rounded-full border px-3 py-1 text-xs font-medium transition-colors ${
+                enabled
+                  ? 'border-pw-orange bg-orange-50 text-pw-orange'
+                  : 'border-gray-200 bg-white text-gray-400 hover:text-gray-600'
+              }`}
+            >
+              {check.label}
+            </button>
+          );
+        })}
+      </div>
+
+      {!activePreset && (
+        <div className="mt-3 flex items-center space-x-2">
+          <input
+            type="text"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            placeholder="Preset name"
+            className="flex-1 rounded-md border border-gray-200 bg-gray-50 p-2 text-sm text-gray-700 focus:border-pw-orange focus:outline-none"
+          />
+          <button
+            onClick={handleSavePreset}
+            disabled={!presetName.trim()}
+            className="flex items-center rounded-md border border-gray-200 bg-white px-3 py-2 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Save size={12} className="mr-1" /> Save Preset
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Issue, IssueSeverity, MarketingData } from '../types';
+import { FailedSegment, Issue, IssueSeverity, MarketingData, VerificationVerdict } from '../types';
 import { 
   CheckCircle2, 
   AlertTriangle, 
@@ -11,7 +11,12 @@ import {
   TrendingUp,
   Monitor,
   Lightbulb,
-  X
+  X,
+  ChevronDown,
+  ChevronRight,
+  Ban,
+  Repeat,
+  Subtitles
 } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
 
@@ -32,19 +37,61 @@ const getIconForType = (type: string) => {
     case 'factual': return <AlertOctagon size={18} />;
     case 'marketing': return <TrendingUp size={18} />;
     case 'platform': return <Monitor size={18} />;
+    case 'caption-spelling':
+    case 'caption-mismatch':
+    case 'caption-sync': return <Subtitles size={18} />;
     default: return <Lightbulb size={18} />;
   }
 };
 
+// --- Confidence ---
+export const LOW_CONFIDENCE = 0.5;
+export const HIGH_CONFIDENCE = 0.8;
+
+export type ConfidenceFilter = 'all' | 'high' | 'medium' | 'low';
+
+/**
+ * Issues without a reported confidence (older results) pass every filter except "low".
+ */
+export const matchesConfidence = (issue: Issue, filter: ConfidenceFilter): boolean => {
+  if (filter === 'all') return true;
+  if (issue.confidence === undefined) return filter !== 'low';
+  if (filter === 'high') return issue.confidence >= HIGH_CONFIDENCE;
+  if (filter === 'medium') return issue.confidence >= LOW_CONFIDENCE;
+  return issue.confidence < LOW_CONFIDENCE;
+};
+
+// --- Verification Badge ---
+const VERDICT_STYLES: Record<VerificationVerdict, string> = {
+  confirmed: 'bg-green-50 text-green-700 border-green-200',
+  refuted: 'bg-gray-100 text-gray-500 border-gray-200',
+  uncertain: 'bg-yellow-50 text-yellow-700 border-yellow-200'
+};
+
+const VerificationBadge = ({ issue }: { issue: Issue }) => {
+  const verification = issue.verification!;
+  return (
+    <span
+      className={`rounded-full border px-2 py-0.5 text-[10px] font-semibold ${VERDICT_STYLES[verification.verdict]}`}
+      title={verification.reasoning}
+    >
+      {verification.verdict === 'refuted' ? 'Refuted' : verification.verdict === 'confirmed' ? 'Verified' : 'Unsure'} {Math.round(verification.confidence * 100)}%
+    </span>
+  );
+};
+
 // --- Issue Card Component ---
 interface IssueCardProps {
   issue: Issue;
-  onJump: (timestamp: string) => void;
+  onJump: (timestamp: string, endTimestamp?: string) => void;
   onFix: (id: string) => void;
+  onIntended?: (id: string) => void;
 }
 
-export const IssueCard: React.FC<IssueCardProps> = ({ issue, onJump, onFix }) => {
+export const IssueCard: React.FC<IssueCardProps> = ({ issue, onJump, onFix, onIntended }) => {
   const [expanded, setExpanded] = React.useState(issue.severity === 'critical');
+  // Accepted caption fixes are written into the corrected caption export
+  const isCaptionFix = issue.cueIndex !== undefined && !!issue.shouldBe;
 
   return (
     <div 
@@ -59,20 +106,41 @@ export const IssueCard: React.FC<IssueCardProps> = ({ issue, onJump, onFix }) =>
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-3">
             <button 
-              onClick={(e) => { e.stopPropagation(); onJump(issue.timestamp); }}
+              onClick={(e) => { e.stopPropagation(); onJump(issue.timestamp, issue.endTimestamp); }}
               className="flex items-center space-x-1 rounded-full bg-gray-100 px-2 py-1 text-xs font-mono font-medium text-gray-600 hover:bg-pw-orange hover:text-white transition-colors"
             >
               <Clock size={12} />
-              <span>{issue.timestamp}</span>
+              <span>{issue.endTimestamp ? `${issue.timestamp}-${issue.endTimestamp}` : issue.timestamp}</span>
             </button>
             <div className={`flex items-center space-x-2 ${getSeverityColor(issue.severity).split(' ')[2]}`}>
                {getIconForType(issue.type)}
                <span className="text-sm font-semibold uppercase">{issue.type}</span>
+               {issue.confidence !== undefined && (
+                 <span
+                   className={`text-[10px] font-medium ${issue.confidence < LOW_CONFIDENCE ? 'text-gray-400' : 'text-gray-500'}`}
+                   title="Model confidence that this is a real issue"
+                 >
+                   {Math.round(issue.confidence * 100)}% sure
+                 </span>
+               )}
+               {issue.ruleSet && (
+                 <span className="rounded bg-gray-100 px-1.5 py-0.5 text-[10px] font-medium text-gray-500" title="Subject rule set that produced this finding">
+                   {issue.ruleSet}
+                 </span>
+               )}
+               {issue.cueIndex !== undefined && (
+                 <span className="rounded bg-gray-100 px-1.5 py-0.5 text-[10px] font-medium text-gray-500" title="Caption cue in the attached file">
+                   Cue #{issue.cueIndex}
+                 </span>
+               )}
             </div>
           </div>
-          <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full uppercase tracking-wider ${getSeverityColor(issue.severity)}`}>
-            {issue.severity}
-          </span>
+          <div className="flex items-center space-x-2">
+            {issue.verification && <VerificationBadge issue={issue} />}
+            <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full uppercase tracking-wider ${getSeverityColor(issue.severity)}`}>
+              {issue.severity}
+            </span>
+          </div>
         </div>
 
         <p className="mt-2 text-sm font-medium text-gray-800 line-clamp-1">
@@ -99,16 +167,40 @@ export const IssueCard: React.FC<IssueCardProps> = ({ issue, onJump, onFix }) =>
                </div>
              )}
              
+             {issue.thumbnail && (
+               <img
+                 src={issue.thumbnail}
+                 alt={`Frame at ${issue.timestamp}`}
+                 onClick={(e) => { e.stopPropagation(); onJump(issue.timestamp, issue.endTimestamp); }}
+                 className="mb-3 w-full max-w-xs cursor-pointer rounded border border-gray-200 hover:border-pw-orange"
+               />
+             )}
+
+             {issue.evidence && (
+               <blockquote className="mb-3 border-l-2 border-gray-200 pl-3 text-xs italic text-gray-600">
+                 {issue.evidence}
+               </blockquote>
+             )}
+
              <p className="mb-3 text-xs text-gray-500">
                <span className="font-semibold">Impact:</span> {issue.impact}
              </p>
 
+             {issue.verification && (
+               <p className="mb-3 text-xs text-gray-500">
+                 <span className="font-semibold">Second pass:</span> {issue.verification.reasoning || 'No reasoning given.'}
+                 {issue.verification.originalSeverity && ` Demoted from ${issue.verification.originalSeverity}.`}
+               </p>
+             )}
+
              <div className="flex space-x-2">
                <button 
-                 onClick={(e) => { e.stopPropagation(); onJump(issue.timestamp); }}
+                 onClick={(e) => { e.stopPropagation(); onJump(issue.timestamp, issue.endTimestamp); }}
                  className="flex items-center justify-center rounded-md border border-gray-200 bg-white px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50"
                >
-                 <Play size={12} className="mr-1.5" /> Jump to Frame
+                 {issue.endTimestamp
+                   ? <><Repeat size={12} className="mr-1.5" /> Loop Range</>
+                   : <><Play size={12} className="mr-1.5" /> Jump to Frame</>}
                </button>
                <button 
                   onClick={(e) => { e.stopPropagation(); onFix(issue.id); }}
@@ -120,8 +212,19 @@ export const IssueCard: React.FC<IssueCardProps> = ({ issue, onJump, onFix }) =>
                   }`}
                >
                  <CheckCircle2 size={12} className="mr-1.5" />
-                 {issue.fixed ? 'Fixed' : 'Mark as Fixed'}
+                 {isCaptionFix
+                   ? (issue.fixed ? 'Fix Accepted' : 'Accept Fix')
+                   : (issue.fixed ? 'Fixed' : 'Mark as Fixed')}
                </button>
+               {onIntended && !issue.fixed && (
+                 <button 
+                   onClick={(e) => { e.stopPropagation(); onIntended(issue.id); }}
+                   title="Remember this as intended for the channel so it is not flagged again"
+                   className="flex items-center justify-center rounded-md border border-gray-200 bg-white px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50"
+                 >
+                   <Ban size={12} className="mr-1.5" /> Not an Issue
+                 </button>
+               )}
              </div>
           </div>
         )}
@@ -130,6 +233,92 @@ export const IssueCard: React.FC<IssueCardProps> = ({ issue, onJump, onFix }) =>
   );
 };
 
+// --- Coverage Warning Component ---
+interface CoverageWarningProps {
+  failedSegments: FailedSegment[];
+}
+
+export const CoverageWarning: React.FC<CoverageWarningProps> = ({ failedSegments }) => {
+  if (failedSegments.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+      <div className="mb-2 flex items-center font-semibold">
+        <AlertTriangle size={16} className="mr-2" />
+        Incomplete coverage: {failedSegments.length} segment{failedSegments.length > 1 ? 's' : ''} could not be analyzed
+      </div>
+      <ul className="space-y-1 pl-6">
+        {failedSegments.map(segment => (
+          <li key={segment.index} title={segment.error}>
+            <span className="font-mono font-semibold">{segment.start}–{segment.end}</span> was NOT checked
+            <span className="text-red-500"> ({segment.attempts} attempt{segment.attempts > 1 ? 's' : ''})</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+// --- Validation Warnings Component ---
+interface ValidationWarningsProps {
+  warnings: string[];
+}
+
+export const ValidationWarnings: React.FC<ValidationWarningsProps> = ({ warnings }) => {
+  const [expanded, setExpanded] = React.useState(false);
+  if (warnings.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+      <button 
+        onClick={() => setExpanded(!expanded)}
+        className="flex w-full items-center justify-between font-semibold"
+      >
+        <span className="flex items-center">
+          <Info size={16} className="mr-2" />
+          {warnings.length} field{warnings.length > 1 ? 's' : ''} in the AI response had to be repaired
+        </span>
+        {expanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+      </button>
+      {expanded && (
+        <ul className="mt-2 list-disc space-y-1 pl-6 text-xs">
+          {warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+interface ProcessingNoticesProps {
+  notices: string[];
+}
+
+// Post-processing notes; unlike validation warnings these do not mean the AI response was broken
+export const ProcessingNotices: React.FC<ProcessingNoticesProps> = ({ notices }) => {
+  const [expanded, setExpanded] = React.useState(false);
+  if (notices.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-blue-100 bg-blue-50 p-4 text-sm text-pw-blue">
+      <button 
+        onClick={() => setExpanded(!expanded)}
+        className="flex w-full items-center justify-between font-semibold"
+      >
+        <span className="flex items-center">
+          <Info size={16} className="mr-2" />
+          {notices.length} processing note{notices.length > 1 ? 's' : ''}
+        </span>
+        {expanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+      </button>
+      {expanded && (
+        <ul className="mt-2 list-disc space-y-1 pl-6 text-xs">
+          {notices.map((notice, i) => <li key={i}>{notice}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
 // --- Marketing Panel Component ---
 interface MarketingPanelProps {
   data: MarketingData;
@@ -1,9 +1,16 @@
 import React, { useState } from 'react';
-import { X, FileText, FileSpreadsheet, FileCode, Download, Link2, Check, Loader2 } from 'lucide-react';
+import { X, FileText, FileSpreadsheet, FileCode, Download, Link2, Check, Loader2, Subtitles } from 'lucide-react';
 import { AnalysisResult } from '../types';
+import { applyCaptionFixes, serializeCaptions } from '../services/captions';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 
+const FRAME_WIDTH_MM = 28;
+
+// Quoted per RFC 4180: embedded quotes doubled, line breaks kept inside the quotes
+const toCsvCell = (value: string | undefined): string =>
+  `"${(value ?? '').replace(/\r\n?/g, '\n').replace(/"/g, '""')}"`;
+
 interface ExportModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -11,7 +18,7 @@ interface ExportModalProps {
 }
 
 export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, results }) => {
-  const [selectedFormat, setSelectedFormat] = useState<'pdf' | 'csv' | 'json'>('pdf');
+  const [selectedFormat, setSelectedFormat] = useState<'pdf' | 'csv' | 'json' | 'captions'>('pdf');
   const [copied, setCopied] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
 
@@ -24,14 +31,26 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, resul
     try {
       await new Promise(r => setTimeout(r, 100)); // UI update
 
-      if (selectedFormat === 'json') {
+      if (selectedFormat === 'captions' && results.captions) {
+        // Only fixes accepted on the dashboard are applied
+        const { track } = applyCaptionFixes(results.captions, results.issues);
+        downloadFile(serializeCaptions(track), track.format === 'vtt' ? 'text/vtt' : 'application/x-subrip', track.format, `${results.videoTitle}_corrected`);
+      } else if (selectedFormat === 'json') {
         const content = JSON.stringify(results, null, 2);
         downloadFile(content, 'application/json', 'json', results.videoTitle);
       } else if (selectedFormat === 'csv') {
-        const headers = "Timestamp,Type,Severity,Description,Impact,Status\n";
-        const rows = results.issues.map(i => 
-          `"${i.timestamp}","${i.type}","${i.severity}","${i.description}","${i.impact}","${i.fixed ? 'Fixed' : 'Open'}"`
-        ).join("\n");
+        const headers = "Timestamp,End,Type,Severity,Description,Impact,Confidence,Evidence,Status\n";
+        const rows = results.issues.map(i => [
+          i.timestamp,
+          i.endTimestamp, // Only range findings have one
+          i.type,
+          i.severity,
+          i.description,
+          i.impact,
+          i.confidence !== undefined ? `${Math.round(i.confidence * 100)}%` : '',
+          i.evidence,
+          i.fixed ? 'Fixed' : 'Open'
+        ].map(toCsvCell).join(",")).join("\n");
         downloadFile(headers + rows, 'text/csv', 'csv', results.videoTitle);
       } else {
         generatePDF(results);
@@ -69,19 +88,30 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, resul
     doc.setFontSize(10);
     doc.text(`This video has a marketing score of ${data.marketing.overallScore}. Found ${data.issues.length} issues.`, 14, 56);
 
+    const failedSegments = data.failedSegments || [];
+    if (failedSegments.length > 0) {
+      doc.setTextColor(239, 68, 68); // PW Critical
+      const ranges = failedSegments.map(f => `${f.start}-${f.end}`).join(', ');
+      doc.text(`NOT checked (analysis failed): ${ranges}`, 14, 61);
+      doc.setTextColor(0);
+    }
+
     // Issues Table
     const tableData = data.issues.map(i => [
-      i.timestamp,
+      i.endTimestamp ? `${i.timestamp}-${i.endTimestamp}` : i.timestamp,
       i.severity.toUpperCase(),
-      i.type,
+      i.ruleSet ? `${i.type} (${i.ruleSet})` : i.type,
       i.description,
-      i.fixed ? 'Fixed' : 'Open'
+      i.fixed ? 'Fixed' : i.verification ? `Open (${i.verification.verdict})` : 'Open',
+      '' // Frame, drawn below
     ]);
 
+    // Evidence frames go in the last column, scaled to its width
+    const hasFrames = data.issues.some(i => i.thumbnail);
     autoTable(doc, {
-      startY: 65,
-      head: [['Time', 'Severity', 'Type', 'Description', 'Status']],
-      body: tableData,
+      startY: failedSegments.length > 0 ? 68 : 65,
+      head: [['Time', 'Severity', 'Type', 'Description', 'Status', ...(hasFrames ? ['Frame'] : [])]],
+      body: hasFrames ? tableData : tableData.map(row => row.slice(0, 5)),
       headStyles: { fillColor: [30, 58, 138] }, // PW Blue
       alternateRowStyles: { fillColor: [248, 250, 252] },
       styles: { fontSize: 8, cellPadding: 3 },
@@ -90,7 +120,15 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, resul
         1: { cellWidth: 20 },
         2: { cellWidth: 20 },
         3: { cellWidth: 'auto' },
-        4: { cellWidth: 20 }
+        4: { cellWidth: 20 },
+        5: { cellWidth: FRAME_WIDTH_MM + 4, minCellHeight: FRAME_WIDTH_MM * 9 / 16 + 4 }
+      },
+      didDrawCell: (cell) => {
+        const thumbnail = data.issues[cell.row.index]?.thumbnail;
+        if (cell.section !== 'body' || cell.column.index !== 5 || !thumbnail) return;
+        const { width, height } = doc.getImageProperties(thumbnail);
+        const drawHeight = Math.min(cell.cell.height - 4, FRAME_WIDTH_MM * height / (width || 1));
+        doc.addImage(thumbnail, 'JPEG', cell.cell.x + 2, cell.cell.y + 2, drawHeight * width / (height || 1), drawHeight);
       }
     });
 
@@ -107,6 +145,30 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, resul
     doc.text(`Hook Score: ${data.marketing.hookScore}/10 - ${data.marketing.hookFeedback}`, 14, finalY + 7);
     doc.text(`CTA Score: ${data.marketing.ctaScore}/10 - ${data.marketing.ctaFeedback}`, 14, finalY + 12);
 
+    // Validation Warnings
+    const warnings = data.validationWarnings || [];
+    if (warnings.length > 0) {
+      autoTable(doc, {
+        startY: finalY + 20,
+        head: [['Validation Warnings (AI output repaired)']],
+        body: warnings.map(w => [w]),
+        headStyles: { fillColor: [245, 158, 11] }, // PW Warning
+        styles: { fontSize: 8, cellPadding: 2 }
+      });
+    }
+
+    // Processing Notes
+    const notices = data.notices || [];
+    if (notices.length > 0) {
+      autoTable(doc, {
+        startY: warnings.length > 0 ? (doc as any).lastAutoTable.finalY + 8 : finalY + 20,
+        head: [['Processing Notes']],
+        body: notices.map(n => [n]),
+        headStyles: { fillColor: [100, 116, 139] },
+        styles: { fontSize: 8, cellPadding: 2 }
+      });
+    }
+
     doc.save(`ProofVision_${data.videoTitle.substring(0, 10)}.pdf`);
   };
 
@@ -144,7 +206,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, resul
 
         <div className="p-6">
           <h4 className="mb-3 text-sm font-semibold text-gray-700">Select Format</h4>
-          <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+          <div className={`grid grid-cols-1 gap-3 ${results.captions ? 'sm:grid-cols-4' : 'sm:grid-cols-3'}`}>
             <FormatOption 
               icon={<FileText size={24} />} 
               label="PDF" 
@@ -166,7 +228,21 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, resul
               active={selectedFormat === 'json'}
               onClick={() => setSelectedFormat('json')}
             />
+            {results.captions && (
+              <FormatOption 
+                icon={<Subtitles size={24} />} 
+                label={results.captions.format.toUpperCase()} 
+                sub="Corrected Captions" 
+                active={selectedFormat === 'captions'}
+                onClick={() => setSelectedFormat('captions')}
+              />
+            )}
           </div>
+          {selectedFormat === 'captions' && results.captions && (
+            <p className="mt-3 text-xs text-gray-500">
+              {applyCaptionFixes(results.captions, results.issues).applied} accepted fix(es) will be applied to {results.captions.fileName}.
+            </p>
+          )}
 
           <div className="mt-8 flex gap-3">
             <button 
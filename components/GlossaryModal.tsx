@@ -0,0 +1,205 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Save, Plus, Trash2, Upload, Download } from 'lucide-react';
+import {
+  Glossaries,
+  GlossaryTerm,
+  exportGlossaryCsv,
+  loadGlossaries,
+  mergeGlossaryTerms,
+  parseGlossaryCsv,
+  saveGlossaries
+} from '../services/glossaries';
+import { SUBJECTS, Subject } from '../services/subjects';
+
+interface GlossaryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  subject: Subject;
+}
+
+// Variants are typed as a comma-separated list and committed on blur
+const VariantsInput = ({ variants, onCommit, className }: { variants: string[]; onCommit: (variants: string[]) => void; className: string }) => {
+  const joined = variants.join(', ');
+  const [draft, setDraft] = useState(joined);
+  useEffect(() => setDraft(joined), [joined]);
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => onCommit(draft.split(',').map(v => v.trim()).filter(Boolean))}
+      className={className}
+    />
+  );
+};
+
+export const GlossaryModal: React.FC<GlossaryModalProps> = ({ isOpen, onClose, subject }) => {
+  const [glossaries, setGlossaries] = useState<Glossaries | null>(null);
+  const [activeSubject, setActiveSubject] = useState<Subject>(subject);
+  const [filter, setFilter] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  // Load on open
+  useEffect(() => {
+    if (isOpen) {
+      setGlossaries(loadGlossaries());
+      setActiveSubject(subject);
+      setFilter('');
+      setMessage(null);
+    }
+  }, [isOpen, subject]);
+
+  if (!isOpen || !glossaries) return null;
+
+  const terms = glossaries[activeSubject];
+  const visible = terms
+    .map((term, index) => ({ term, index }))
+    .filter(({ term }) => !filter || `${term.term} ${term.variants.join(' ')}`.toLowerCase().includes(filter.toLowerCase()));
+
+  const setTerms = (next: GlossaryTerm[]) => setGlossaries({ ...glossaries, [activeSubject]: next });
+
+  const updateTerm = (index: number, changes: Partial<GlossaryTerm>) => {
+    setTerms(terms.map((t, i) => i === index ? { ...t, ...changes } : t));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const incoming = parseGlossaryCsv(await file.text());
+      setTerms(mergeGlossaryTerms(terms, incoming));
+      setMessage(`Imported ${incoming.length} term(s). Save to keep them.`);
+    } catch (err: any) {
+      setMessage(`Import failed: ${err.message}`);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportGlossaryCsv(terms)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `PW_ProofVision_Glossary_${activeSubject}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleSave = () => {
+    const cleaned = { ...glossaries };
+    SUBJECTS.forEach(({ id }) => {
+      cleaned[id] = cleaned[id].filter(t => t.term.trim()).map(t => ({ ...t, term: t.term.trim() }));
+    });
+    saveGlossaries(cleaned);
+    onClose();
+  };
+
+  const inputClass = "w-full rounded-md border border-gray-200 px-2 py-1.5 text-sm focus:border-pw-orange focus:outline-none";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" aria-modal="true" role="dialog">
+      <div className="flex max-h-[90vh] w-full max-w-3xl flex-col animate-in fade-in zoom-in-95 duration-200 rounded-xl bg-white shadow-2xl">
+        <div className="flex items-center justify-between border-b p-5">
+          <h3 className="font-heading text-xl font-semibold text-pw-blue">Subject Glossaries</h3>
+          <button
+            onClick={onClose}
+            className="rounded-full p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600"
+            aria-label="Close glossaries"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Subject Tabs */}
+        <div className="flex border-b border-gray-100 px-5">
+          {SUBJECTS.map(s => (
+            <button
+              key={s.id}
+              onClick={() => { setActiveSubject(s.id); setFilter(''); }}
+              className={`border-b-2 px-4 py-3 text-sm font-medium ${activeSubject === s.id ? 'border-pw-orange text-pw-orange' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+            >
+              {s.label} <span className="text-xs text-gray-400">({glossaries[s.id].length})</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between gap-2 px-5 pt-4">
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Search terms..."
+            className="w-48 rounded-md border border-gray-200 bg-gray-50 px-3 py-1.5 text-sm focus:border-pw-orange focus:outline-none"
+          />
+          <div className="flex space-x-2">
+            <button onClick={() => setTerms([{ term: '', variants: [] }, ...terms])} className="flex items-center rounded-md border border-gray-200 bg-white px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-100">
+              <Plus size={12} className="mr-1" /> Add Term
+            </button>
+            <button onClick={() => importRef.current?.click()} className="flex items-center rounded-md border border-gray-200 bg-white px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-100">
+              <Upload size={12} className="mr-1" /> Import CSV
+            </button>
+            <button onClick={handleExport} className="flex items-center rounded-md border border-gray-200 bg-white px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-100">
+              <Download size={12} className="mr-1" /> Export CSV
+            </button>
+            <input ref={importRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImport} />
+          </div>
+        </div>
+        <p className="px-5 pt-2 text-xs text-gray-500">CSV columns: term, variants (separated by |), note.</p>
+        {message && <p className="px-5 pt-1 text-xs font-medium text-pw-blue">{message}</p>}
+
+        {/* Term Table */}
+        <div className="custom-scrollbar min-h-0 flex-1 overflow-y-auto px-5 py-3">
+          <table className="w-full text-left text-sm">
+            <thead className="text-[10px] font-bold uppercase tracking-wider text-gray-500">
+              <tr>
+                <th className="pb-2 pr-2 w-1/3">Term</th>
+                <th className="pb-2 pr-2">Accepted Variants</th>
+                <th className="pb-2 pr-2">Note</th>
+                <th className="pb-2 w-8"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(({ term, index }) => (
+                <tr key={index} className="border-t border-gray-50">
+                  <td className="py-1.5 pr-2">
+                    <input type="text" value={term.term} onChange={(e) => updateTerm(index, { term: e.target.value })} className={inputClass} />
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    <VariantsInput variants={term.variants} onCommit={(variants) => updateTerm(index, { variants })} className={inputClass} />
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    <input type="text" value={term.note || ''} onChange={(e) => updateTerm(index, { note: e.target.value || undefined })} className={inputClass} />
+                  </td>
+                  <td className="py-1.5">
+                    <button
+                      onClick={() => setTerms(terms.filter((_, i) => i !== index))}
+                      className="rounded p-1 text-gray-400 hover:bg-red-50 hover:text-red-600"
+                      aria-label={`Remove ${term.term}`}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {visible.length === 0 && <p className="py-6 text-center text-sm text-gray-400">No terms.</p>}
+        </div>
+
+        <div className="border-t p-5">
+          <button
+            onClick={handleSave}
+            className="flex w-full items-center justify-center rounded-lg bg-pw-blue py-2.5 font-bold text-white shadow-sm hover:bg-blue-800 transition-all"
+          >
+            <Save className="mr-2" size={18} />
+            Save Glossaries
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
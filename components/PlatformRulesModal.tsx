@@ -0,0 +1,214 @@
+import React, { useState, useEffect } from 'react';
+import { X, Save, RotateCcw } from 'lucide-react';
+import { PlatformId } from '../types';
+import {
+  CaptionExpectation,
+  PLATFORM_PROFILES,
+  PlatformRules,
+  SafeZone,
+  getPlatformProfile,
+  hasPlatformOverride,
+  resetPlatformRules,
+  savePlatformRules
+} from '../services/platformProfiles';
+
+interface PlatformRulesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  platformId: PlatformId;
+}
+
+const toRules = (id: PlatformId): PlatformRules => {
+  const { id: _id, label, network, ...rules } = getPlatformProfile(id);
+  return rules;
+};
+
+const SAFE_ZONE_SIDES: (keyof SafeZone)[] = ['top', 'bottom', 'left', 'right'];
+
+export const PlatformRulesModal: React.FC<PlatformRulesModalProps> = ({ isOpen, onClose, platformId }) => {
+  const [activeId, setActiveId] = useState<PlatformId>(platformId);
+  const [rules, setRules] = useState<PlatformRules>(() => toRules(platformId));
+  const [ratiosDraft, setRatiosDraft] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+
+  const selectPlatform = (id: PlatformId) => {
+    const next = toRules(id);
+    setActiveId(id);
+    setRules(next);
+    setRatiosDraft(next.aspectRatios.join(', '));
+    setMessage(hasPlatformOverride(id) ? "This platform has custom rules." : null);
+  };
+
+  // Load on open
+  useEffect(() => {
+    if (isOpen) selectPlatform(platformId);
+  }, [isOpen, platformId]);
+
+  if (!isOpen) return null;
+
+  const update = (changes: Partial<PlatformRules>) => setRules(prev => ({ ...prev, ...changes }));
+
+  const handleSave = () => {
+    const aspectRatios = ratiosDraft.split(',').map(r => r.trim()).filter(Boolean);
+    if (aspectRatios.length === 0) {
+      setMessage("At least one aspect ratio is required.");
+      return;
+    }
+    if (rules.minDurationSeconds > rules.maxDurationSeconds) {
+      setMessage("Minimum length cannot exceed the maximum.");
+      return;
+    }
+    savePlatformRules(activeId, { ...rules, aspectRatios });
+    onClose();
+  };
+
+  const handleReset = () => {
+    resetPlatformRules(activeId);
+    selectPlatform(activeId);
+    setMessage("Restored the built-in rules.");
+  };
+
+  const inputClass = "w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-pw-orange focus:ring-1 focus:ring-pw-orange outline-none transition-colors";
+  const numberValue = (value: string) => Math.max(0, parseInt(value, 10) || 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" aria-modal="true" role="dialog">
+      <div className="flex max-h-[90vh] w-full max-w-3xl flex-col animate-in fade-in zoom-in-95 duration-200 rounded-xl bg-white shadow-2xl">
+        <div className="flex items-center justify-between border-b p-5">
+          <h3 className="font-heading text-xl font-semibold text-pw-blue">Platform Rules</h3>
+          <button
+            onClick={onClose}
+            className="rounded-full p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600"
+            aria-label="Close platform rules"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex min-h-0 flex-1">
+          {/* Platform List */}
+          <div className="w-48 space-y-1 border-r border-gray-100 bg-gray-50 p-3">
+            {PLATFORM_PROFILES.map(p => (
+              <button
+                key={p.id}
+                onClick={() => selectPlatform(p.id)}
+                className={`w-full truncate rounded-md px-3 py-2 text-left text-sm ${p.id === activeId ? 'bg-white font-semibold text-pw-blue shadow-sm' : 'text-gray-600 hover:bg-white'}`}
+              >
+                {p.label}
+              </button>
+            ))}
+          </div>
+
+          {/* Rule Editor */}
+          <div className="custom-scrollbar flex-1 space-y-4 overflow-y-auto p-6">
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">Accepted Aspect Ratios</label>
+              <input
+                type="text"
+                value={ratiosDraft}
+                onChange={(e) => setRatiosDraft(e.target.value)}
+                placeholder="9:16, 1:1"
+                className={inputClass}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">Min Length (seconds)</label>
+                <input type="number" min={0} value={rules.minDurationSeconds} onChange={(e) => update({ minDurationSeconds: numberValue(e.target.value) })} className={inputClass} />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">Max Length (seconds)</label>
+                <input type="number" min={1} value={rules.maxDurationSeconds} onChange={(e) => update({ maxDurationSeconds: numberValue(e.target.value) })} className={inputClass} />
+              </div>
+            </div>
+
+            {/* Only vertical feeds overlay their UI on the video */}
+            {rules.safeZone && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">Safe-Zone Margins <span className="text-xs text-gray-400">(% of the frame covered by app UI)</span></label>
+                <div className="grid grid-cols-4 gap-2">
+                  {SAFE_ZONE_SIDES.map(side => (
+                    <div key={side}>
+                      <span className="text-[10px] font-bold uppercase tracking-wider text-gray-500">{side}</span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={50}
+                        value={rules.safeZone[side]}
+                        onChange={(e) => update({ safeZone: { ...rules.safeZone, [side]: Math.min(50, numberValue(e.target.value)) } })}
+                        className={inputClass}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">Captions</label>
+                <select
+                  value={rules.captions}
+                  onChange={(e) => update({ captions: e.target.value as CaptionExpectation })}
+                  className={inputClass}
+                >
+                  <option value="required">Required</option>
+                  <option value="recommended">Recommended</option>
+                  <option value="optional">Optional</option>
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">Thumbnail Ratio</label>
+                <input
+                  type="text"
+                  value={rules.thumbnail.aspectRatio}
+                  onChange={(e) => update({ thumbnail: { ...rules.thumbnail, aspectRatio: e.target.value } })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={rules.thumbnail.custom}
+                  onChange={(e) => update({ thumbnail: { ...rules.thumbnail, custom: e.target.checked } })}
+                  className="h-4 w-4 rounded border-gray-300 accent-pw-orange"
+                />
+                <span>Custom thumbnail can be uploaded</span>
+              </label>
+              <textarea
+                rows={2}
+                value={rules.thumbnail.notes}
+                onChange={(e) => update({ thumbnail: { ...rules.thumbnail, notes: e.target.value } })}
+                placeholder="Thumbnail guidance sent to the model"
+                className={inputClass}
+              />
+            </div>
+
+            {message && <p className="text-xs font-medium text-pw-blue">{message}</p>}
+          </div>
+        </div>
+
+        <div className="flex gap-3 border-t p-5">
+          <button
+            onClick={handleReset}
+            className="flex items-center justify-center rounded-lg border border-gray-200 bg-white px-4 py-2.5 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            <RotateCcw className="mr-2" size={16} />
+            Reset to Defaults
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex flex-1 items-center justify-center rounded-lg bg-pw-blue py-2.5 font-bold text-white shadow-sm hover:bg-blue-800 transition-all"
+          >
+            <Save className="mr-2" size={18} />
+            Save Rules
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
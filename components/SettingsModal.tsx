@@ -1,5 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { X, Save, User, Key, Youtube, Instagram, Loader2 } from 'lucide-react';
+import { X, Save, User, Key, Youtube, Instagram, Loader2, Cpu, ChevronDown } from 'lucide-react';
+import { ProviderId } from '../services/analysisProvider';
+import { ModelPrice, getModelPrice, isPriceChanged, saveModelPrice } from '../services/pricing';
+import { DEFAULT_CONCURRENCY, DEFAULT_OVERLAP_SECONDS, MAX_CONCURRENCY, MAX_OVERLAP_SECONDS, loadAnalysisSettings, saveAnalysisSettings } from '../services/analysisSettings';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -20,6 +23,14 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
   const [apiKey, setApiKey] = useState(currentKey);
   const [ytUrl, setYtUrl] = useState('');
   const [instaUrl, setInstaUrl] = useState('');
+  const [provider, setProvider] = useState<ProviderId>('gemini');
+  const [model, setModel] = useState('');
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [overlapSeconds, setOverlapSeconds] = useState(DEFAULT_OVERLAP_SECONDS);
+  const [verifyFindings, setVerifyFindings] = useState(false);
+  const [transcribe, setTranscribe] = useState(false);
+  const [sampleFrames, setSampleFrames] = useState(false);
+  const [price, setPrice] = useState<ModelPrice>({ inputPerMillion: 0, outputPerMillion: 0 });
   const [isSaving, setIsSaving] = useState(false);
 
   // Load defaults on open
@@ -29,9 +40,22 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
       setApiKey(currentKey);
       setYtUrl(localStorage.getItem('pw_default_youtube_url') || '');
       setInstaUrl(localStorage.getItem('pw_default_instagram_url') || '');
+      const analysisSettings = loadAnalysisSettings();
+      setProvider(analysisSettings.provider);
+      setModel(analysisSettings.model);
+      setConcurrency(analysisSettings.concurrency);
+      setOverlapSeconds(analysisSettings.overlapSeconds);
+      setVerifyFindings(analysisSettings.verifyFindings);
+      setTranscribe(analysisSettings.transcribe);
+      setSampleFrames(analysisSettings.sampleFrames);
     }
   }, [isOpen, currentUser, currentKey]);
 
+  // Show the price for whichever model is entered
+  useEffect(() => {
+    if (isOpen && model) setPrice(getModelPrice(model));
+  }, [isOpen, model]);
+
   if (!isOpen) return null;
 
   const handleSave = (e: React.FormEvent) => {
@@ -43,6 +67,8 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
       // Save global preferences
       localStorage.setItem('pw_default_youtube_url', ytUrl);
       localStorage.setItem('pw_default_instagram_url', instaUrl);
+      saveAnalysisSettings({ provider, model, concurrency, overlapSeconds, verifyFindings, transcribe, sampleFrames });
+      if (provider === 'gemini' && model && isPriceChanged(model, price)) saveModelPrice(model, price);
       
       // Pass auth changes back up
       onSave(name, apiKey);
@@ -133,6 +159,135 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
             </div>
           </div>
 
+          <hr className="border-gray-100" />
+
+          {/* Analysis Engine Section */}
+          <div className="space-y-4">
+            <h4 className="text-xs font-bold uppercase tracking-wider text-gray-500">Analysis Engine</h4>
+            <p className="text-xs text-gray-500">Offline fixtures replay recorded results, so demos and QA runs need no network.</p>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">Provider</label>
+              <div className="relative">
+                <Cpu className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+                <select 
+                  value={provider}
+                  onChange={(e) => setProvider(e.target.value as ProviderId)}
+                  className="w-full appearance-none rounded-lg border border-gray-300 bg-white pl-9 py-2 text-sm focus:border-pw-orange focus:ring-1 focus:ring-pw-orange outline-none transition-colors"
+                >
+                  <option value="gemini">Gemini (Live)</option>
+                  <option value="fixture">Offline Fixtures (QA / Demo)</option>
+                </select>
+                <ChevronDown className="absolute right-3 top-2.5 h-4 w-4 text-gray-400" />
+              </div>
+            </div>
+
+            {provider === 'gemini' && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">Gemini Model</label>
+                <input 
+                  type="text" 
+                  value={model}
+                  onChange={(e) => setModel(e.target.value)}
+                  placeholder="gemini-3-pro-preview"
+                  className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-pw-orange focus:ring-1 focus:ring-pw-orange outline-none transition-colors font-mono"
+                />
+              </div>
+            )}
+
+            {provider === 'gemini' && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700">Input $ / 1M tokens</label>
+                  <input 
+                    type="number" 
+                    min={0}
+                    step={0.01}
+                    value={price.inputPerMillion}
+                    onChange={(e) => setPrice({ ...price, inputPerMillion: parseFloat(e.target.value) || 0 })}
+                    className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-pw-orange focus:ring-1 focus:ring-pw-orange outline-none transition-colors"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700">Output $ / 1M tokens</label>
+                  <input 
+                    type="number" 
+                    min={0}
+                    step={0.01}
+                    value={price.outputPerMillion}
+                    onChange={(e) => setPrice({ ...price, outputPerMillion: parseFloat(e.target.value) || 0 })}
+                    className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-pw-orange focus:ring-1 focus:ring-pw-orange outline-none transition-colors"
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">Parallel Segments</label>
+              <input 
+                type="number" 
+                min={1}
+                max={MAX_CONCURRENCY}
+                value={concurrency}
+                onChange={(e) => setConcurrency(parseInt(e.target.value, 10) || 1)}
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-pw-orange focus:ring-1 focus:ring-pw-orange outline-none transition-colors"
+              />
+              <p className="text-xs text-gray-500">Long lectures are split into 20-minute segments. Lower this if you hit rate limits.</p>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">Segment Overlap (seconds)</label>
+              <input 
+                type="number" 
+                min={0}
+                max={MAX_OVERLAP_SECONDS}
+                value={overlapSeconds}
+                onChange={(e) => setOverlapSeconds(parseInt(e.target.value, 10) || 0)}
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-pw-orange focus:ring-1 focus:ring-pw-orange outline-none transition-colors"
+              />
+              <p className="text-xs text-gray-500">Catches overlays that straddle a segment boundary. Duplicates are merged automatically.</p>
+            </div>
+
+            <div className="space-y-1">
+              <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                <input 
+                  type="checkbox" 
+                  checked={verifyFindings}
+                  onChange={(e) => setVerifyFindings(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300 accent-pw-orange"
+                />
+                <span>Verify critical &amp; major findings</span>
+              </label>
+              <p className="text-xs text-gray-500">Re-checks each serious issue on a short clip around it. Refuted issues are demoted, not removed. Adds one request per issue.</p>
+            </div>
+
+            <div className="space-y-1">
+              <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                <input 
+                  type="checkbox" 
+                  checked={transcribe}
+                  onChange={(e) => setTranscribe(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300 accent-pw-orange"
+                />
+                <span>Generate transcript</span>
+              </label>
+              <p className="text-xs text-gray-500">Timestamped Hindi/English transcript shown beside the player. Adds one request per segment.</p>
+            </div>
+
+            <div className="space-y-1">
+              <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                <input 
+                  type="checkbox" 
+                  checked={sampleFrames}
+                  onChange={(e) => setSampleFrames(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300 accent-pw-orange"
+                />
+                <span>Capture evidence frames</span>
+              </label>
+              <p className="text-xs text-gray-500">Finds scene cuts locally, snaps on-screen findings to the nearest cut and attaches the flagged frame to each issue. No extra requests, but scanning a long lecture takes a few minutes.</p>
+            </div>
+          </div>
+
           <div className="pt-2">
             <button 
               type="submit"
@@ -0,0 +1,101 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { AlertCircle, FileText } from 'lucide-react';
+import { Issue, TranscriptLanguage, TranscriptLine } from '../types';
+
+interface TranscriptPanelProps {
+  lines: TranscriptLine[];
+  issues: Issue[];
+  currentTime: number; // seconds, from the player
+  onJump: (timestamp: string) => void;
+}
+
+// --- Helper to parse MM:SS / HH:MM:SS to seconds ---
+const parseTimestamp = (timeStr: string): number => {
+  try {
+    const parts = timeStr.split(':');
+    if (parts.length === 2) return parseInt(parts[0]) * 60 + parseInt(parts[1]);
+    if (parts.length === 3) return parseInt(parts[0]) * 3600 + parseInt(parts[1]) * 60 + parseInt(parts[2]);
+    return 0;
+  } catch (e) { return 0; }
+};
+
+const LANGUAGE_LABELS: Record<TranscriptLanguage, string> = {
+  hi: 'HI',
+  en: 'EN',
+  mixed: 'HI+EN'
+};
+
+export const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ lines, issues, currentTime, onJump }) => {
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  const starts = useMemo(() => lines.map(line => parseTimestamp(line.start)), [lines]);
+
+  // A line owns every issue from its start until the next line starts
+  const issuesByLine = useMemo(() => {
+    const grouped = new Map<number, Issue[]>();
+    issues.forEach(issue => {
+      const seconds = parseTimestamp(issue.timestamp);
+      let index = -1;
+      for (let i = 0; i < starts.length && starts[i] <= seconds; i++) index = i;
+      if (index === -1) return;
+      grouped.set(index, [...(grouped.get(index) || []), issue]);
+    });
+    return grouped;
+  }, [issues, starts]);
+
+  // The current line is the last one that has started
+  let activeIndex = -1;
+  for (let i = 0; i < starts.length && starts[i] <= currentTime; i++) activeIndex = i;
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeIndex]);
+
+  if (lines.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center rounded-lg bg-white p-10 text-center text-sm text-gray-400 shadow-sm">
+        <FileText size={28} className="mb-2" />
+        No transcript for this analysis. Enable "Generate transcript" in Settings and re-analyze.
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg bg-white p-2 shadow-sm">
+      {lines.map((line, index) => {
+        const lineIssues = issuesByLine.get(index) || [];
+        const isActive = index === activeIndex;
+        return (
+          <button
+            key={`${line.start}-${index}`}
+            ref={isActive ? activeRef : undefined}
+            onClick={() => onJump(line.start)}
+            className={`flex w-full items-start space-x-3 rounded-md px-3 py-2 text-left text-sm transition-colors ${
+              isActive ? 'bg-orange-50 text-gray-900' : 'text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            <span className={`mt-0.5 shrink-0 font-mono text-xs ${isActive ? 'font-bold text-pw-orange' : 'text-gray-400'}`}>
+              {line.start}
+            </span>
+            <span className="flex-1 leading-relaxed">{line.text}</span>
+            <span className="flex shrink-0 items-center space-x-2">
+              {lineIssues.length > 0 && (
+                <span
+                  className="flex items-center rounded-full bg-red-50 px-1.5 py-0.5 text-[10px] font-bold text-red-600"
+                  title={lineIssues.map(i => `${i.timestamp} ${i.description}`).join('\n')}
+                >
+                  <AlertCircle size={10} className="mr-0.5" /> {lineIssues.length}
+                </span>
+              )}
+              {line.language && (
+                <span className="text-[10px] font-semibold uppercase tracking-wider text-gray-400">
+                  {LANGUAGE_LABELS[line.language]}
+                </span>
+              )}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,15 +1,20 @@
 import React, { useRef, useState, useImperativeHandle, forwardRef, useEffect } from 'react';
-import { Play, Pause } from 'lucide-react';
-import { Issue } from '../types';
+import { Play, Pause, Repeat, X, Smartphone } from 'lucide-react';
+import { Issue, LoudnessPoint, SceneChange } from '../types';
+import { SafeZone } from '../services/platformProfiles';
 
 interface VideoWorkspaceProps {
   videoUrl: string | null;
   issues: Issue[];
+  loudness?: LoudnessPoint[]; // Measured short-term loudness, drawn as a lane under the timeline
+  sceneChanges?: SceneChange[]; // Detected cuts, drawn as ticks with a preview on hover
+  safeZone?: SafeZone; // Target platform's UI margins, offered as a toggleable overlay
+  platformLabel?: string;
   onTimeUpdate?: (time: number) => void;
 }
 
 export interface VideoWorkspaceRef {
-  jumpTo: (time: number) => void;
+  jumpTo: (time: number, endTime?: number) => void; // With endTime, loops the range until stopped
   play: () => void;
   pause: () => void;
 }
@@ -23,21 +28,52 @@ const parseTimestamp = (timeStr: string): number => {
   } catch (e) { return 0; }
 };
 
+// How long a flagged text box stays outlined after its timestamp
+const TEXT_REGION_SECONDS = 3;
+
+// Loudness lane range; quieter readings sit on the floor
+const LANE_FLOOR_LUFS = -60;
+const LANE_CEILING_LUFS = 0;
+
 const formatTime = (time: number) => {
   const mins = Math.floor(time / 60);
   const secs = Math.floor(time % 60);
   return `${mins}:${secs.toString().padStart(2, '0')}`;
 };
 
-export const VideoWorkspace = forwardRef<VideoWorkspaceRef, VideoWorkspaceProps>(({ videoUrl, issues, onTimeUpdate }, ref) => {
+export const VideoWorkspace = forwardRef<VideoWorkspaceRef, VideoWorkspaceProps>(({ videoUrl, issues, loudness, sceneChanges, safeZone, platformLabel, onTimeUpdate }, ref) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
+  const [loopRange, setLoopRange] = useState<{ start: number; end: number } | null>(null);
+  const [hoveredScene, setHoveredScene] = useState<SceneChange | null>(null);
+  const [showSafeZone, setShowSafeZone] = useState(false);
+  // Where the picture actually sits inside the letterboxed player, in px
+  const stageRef = useRef<HTMLDivElement>(null);
+  const [frameRect, setFrameRect] = useState<{ left: number; top: number; width: number; height: number } | null>(null);
+
+  const measureFrame = () => {
+    const stage = stageRef.current;
+    const video = videoRef.current;
+    if (!stage || !video || !video.videoWidth || !video.videoHeight) return;
+    const scale = Math.min(stage.clientWidth / video.videoWidth, stage.clientHeight / video.videoHeight);
+    const width = video.videoWidth * scale;
+    const height = video.videoHeight * scale;
+    setFrameRect({ left: (stage.clientWidth - width) / 2, top: (stage.clientHeight - height) / 2, width, height });
+  };
+
+  useEffect(() => {
+    if (!stageRef.current) return;
+    const observer = new ResizeObserver(measureFrame);
+    observer.observe(stageRef.current);
+    return () => observer.disconnect();
+  }, []);
 
   useImperativeHandle(ref, () => ({
-    jumpTo: (time: number) => {
+    jumpTo: (time: number, endTime?: number) => {
       if (videoRef.current) {
+        setLoopRange(endTime !== undefined && endTime > time ? { start: time, end: endTime } : null);
         videoRef.current.currentTime = time;
         if (videoRef.current.paused) {
           const playPromise = videoRef.current.play();
@@ -66,9 +102,25 @@ export const VideoWorkspace = forwardRef<VideoWorkspaceRef, VideoWorkspaceProps>
     }
   };
 
+  // Polyline in a 100x100 box, stretched to the timeline's width
+  const lanePoints = loudness && loudness.length > 1 && duration
+    ? loudness
+        .filter(p => p.time <= duration)
+        .map(p => {
+          const level = Math.min(LANE_CEILING_LUFS, Math.max(LANE_FLOOR_LUFS, p.lufs));
+          const y = 100 - ((level - LANE_FLOOR_LUFS) / (LANE_CEILING_LUFS - LANE_FLOOR_LUFS)) * 100;
+          return `${(p.time / duration) * 100},${y}`;
+        })
+        .join(' ')
+    : null;
+
   const onUpdate = () => {
     if (videoRef.current) {
       const t = videoRef.current.currentTime;
+      if (loopRange && t >= loopRange.end) {
+        videoRef.current.currentTime = loopRange.start;
+        return;
+      }
       setCurrentTime(t);
       if (onTimeUpdate) onTimeUpdate(t);
     }
@@ -76,14 +128,14 @@ export const VideoWorkspace = forwardRef<VideoWorkspaceRef, VideoWorkspaceProps>
 
   return (
     <div className="flex h-1/2 w-full flex-col bg-black lg:h-full lg:w-5/12 xl:w-1/2 relative group">
-      <div className="relative h-full w-full flex items-center justify-center bg-zinc-900">
+      <div ref={stageRef} className="relative h-full w-full flex items-center justify-center bg-zinc-900">
         {videoUrl ? (
           <video 
             ref={videoRef}
             src={videoUrl}
             className="h-full w-full max-h-full object-contain"
             onTimeUpdate={onUpdate}
-            onLoadedMetadata={() => setDuration(videoRef.current?.duration || 0)}
+            onLoadedMetadata={() => { setDuration(videoRef.current?.duration || 0); measureFrame(); }}
             onPlay={() => setIsPlaying(true)}
             onPause={() => setIsPlaying(false)}
             onClick={handlePlayToggle}
@@ -92,6 +144,61 @@ export const VideoWorkspace = forwardRef<VideoWorkspaceRef, VideoWorkspaceProps>
           <div className="text-white">Video Source Missing</div>
         )}
         
+        {/* Active Loop */}
+        {loopRange && (
+          <div className="absolute top-3 left-3 flex items-center space-x-2 rounded-full bg-black/60 px-3 py-1 text-xs font-mono text-white">
+            <Repeat size={12} />
+            <span>Looping {formatTime(loopRange.start)} - {formatTime(loopRange.end)}</span>
+            <button onClick={() => setLoopRange(null)} className="text-white/70 hover:text-white" aria-label="Stop looping">
+              <X size={12} />
+            </button>
+          </div>
+        )}
+
+        {/* Safe-Zone Overlay: shaded margins are covered by the platform's UI */}
+        {showSafeZone && safeZone && frameRect && (
+          <div
+            className="pointer-events-none absolute"
+            style={{ left: frameRect.left, top: frameRect.top, width: frameRect.width, height: frameRect.height }}
+          >
+            <div className="absolute inset-x-0 top-0 bg-red-500/30" style={{ height: `${safeZone.top}%` }}></div>
+            <div className="absolute inset-x-0 bottom-0 bg-red-500/30" style={{ height: `${safeZone.bottom}%` }}></div>
+            <div className="absolute left-0 bg-red-500/30" style={{ top: `${safeZone.top}%`, bottom: `${safeZone.bottom}%`, width: `${safeZone.left}%` }}></div>
+            <div className="absolute right-0 bg-red-500/30" style={{ top: `${safeZone.top}%`, bottom: `${safeZone.bottom}%`, width: `${safeZone.right}%` }}></div>
+            <div
+              className="absolute border border-dashed border-white/80"
+              style={{ top: `${safeZone.top}%`, bottom: `${safeZone.bottom}%`, left: `${safeZone.left}%`, right: `${safeZone.right}%` }}
+            ></div>
+
+            {/* Text boxes flagged around the current time */}
+            {issues.filter(issue => {
+              if (!issue.textRegion) return false;
+              const start = parseTimestamp(issue.timestamp);
+              const end = issue.endTimestamp ? parseTimestamp(issue.endTimestamp) : start + TEXT_REGION_SECONDS;
+              return currentTime >= start && currentTime <= end;
+            }).map(issue => (
+              <div
+                key={issue.id}
+                className="absolute border-2 border-amber-400 bg-amber-400/10"
+                style={{ left: `${issue.textRegion!.x}%`, top: `${issue.textRegion!.y}%`, width: `${issue.textRegion!.width}%`, height: `${issue.textRegion!.height}%` }}
+              ></div>
+            ))}
+          </div>
+        )}
+
+        {/* Safe-Zone Toggle */}
+        {safeZone && (
+          <button
+            onClick={() => setShowSafeZone(!showSafeZone)}
+            className={`absolute top-3 right-3 z-10 flex items-center space-x-1.5 rounded-full px-3 py-1 text-xs font-medium transition-colors ${showSafeZone ? 'bg-pw-orange text-white' : 'bg-black/60 text-white/80 hover:text-white'}`}
+            title={`Shade the areas covered by the ${platformLabel || 'platform'} UI`}
+            aria-pressed={showSafeZone}
+          >
+            <Smartphone size={12} />
+            <span>Safe Zone{platformLabel ? ` (${platformLabel})` : ''}</span>
+          </button>
+        )}
+
         {/* Play Overlay Button */}
         {!isPlaying && (
            <div 
@@ -117,6 +224,8 @@ export const VideoWorkspace = forwardRef<VideoWorkspaceRef, VideoWorkspaceProps>
             if (videoRef.current && duration) {
               const rect = e.currentTarget.getBoundingClientRect();
               const pos = (e.clientX - rect.left) / rect.width;
+              // Seeking elsewhere ends the loop
+              setLoopRange(null);
               videoRef.current.currentTime = pos * duration;
             }
           }}
@@ -126,12 +235,52 @@ export const VideoWorkspace = forwardRef<VideoWorkspaceRef, VideoWorkspaceProps>
              style={{ width: `${(currentTime / (duration || 1)) * 100}%` }}
            ></div>
            
-           {/* Issue Markers */}
+           {/* Scene Cuts */}
+           {duration > 0 && sceneChanges?.map(scene => (
+             <div
+               key={scene.time}
+               className="absolute -top-1 h-[calc(100%+8px)] w-0.5 bg-white/50 hover:bg-white"
+               style={{ left: `${(scene.time / duration) * 100}%` }}
+               onMouseEnter={() => setHoveredScene(scene)}
+               onMouseLeave={() => setHoveredScene(null)}
+             ></div>
+           ))}
+           {hoveredScene && duration > 0 && (
+             <div
+               className="pointer-events-none absolute bottom-full mb-3 -translate-x-1/2 rounded border border-white/60 bg-black p-1 text-center text-[10px] font-mono text-white"
+               style={{ left: `${(hoveredScene.time / duration) * 100}%` }}
+             >
+               {hoveredScene.thumbnail && <img src={hoveredScene.thumbnail} alt="" className="mb-1 w-32 max-w-none rounded-sm" />}
+               Cut at {formatTime(hoveredScene.time)}
+             </div>
+           )}
+
+           {/* Issue Markers (ranges as bars, single moments as dots) */}
            {issues.map(issue => {
              const issueTime = parseTimestamp(issue.timestamp);
              const pct = (issueTime / (duration || 1)) * 100;
              if (pct > 100) return null;
              const colorClass = issue.severity === 'critical' ? 'bg-red-500' : issue.severity === 'major' ? 'bg-amber-500' : 'bg-green-500';
+
+             if (issue.endTimestamp) {
+               const endTime = parseTimestamp(issue.endTimestamp);
+               const widthPct = Math.min(100 - pct, ((endTime - issueTime) / (duration || 1)) * 100);
+               return (
+                 <div 
+                   key={issue.id}
+                   className={`absolute top-1/2 h-2.5 -translate-y-1/2 rounded-sm border border-white/80 opacity-80 hover:opacity-100 ${colorClass} cursor-pointer`}
+                   style={{ left: `${pct}%`, width: `max(${widthPct}%, 6px)` }}
+                   title={`${issue.timestamp} - ${issue.endTimestamp}: ${issue.description}`}
+                   onClick={(e) => {
+                     e.stopPropagation();
+                     if (videoRef.current) {
+                       setLoopRange({ start: issueTime, end: endTime });
+                       videoRef.current.currentTime = issueTime;
+                     }
+                   }}
+                 ></div>
+               );
+             }
              
              return (
                <div 
@@ -142,6 +291,7 @@ export const VideoWorkspace = forwardRef<VideoWorkspaceRef, VideoWorkspaceProps>
                  onClick={(e) => {
                    e.stopPropagation();
                    if (videoRef.current) {
+                     setLoopRange(null);
                      videoRef.current.currentTime = issueTime;
                    }
                  }}
@@ -149,6 +299,19 @@ export const VideoWorkspace = forwardRef<VideoWorkspaceRef, VideoWorkspaceProps>
              );
            })}
         </div>
+
+        {/* Loudness Lane */}
+        {lanePoints && (
+          <div className="relative mt-2 h-6 w-full" title="Measured loudness (short-term LUFS)">
+            <svg className="h-full w-full" viewBox="0 0 100 100" preserveAspectRatio="none">
+              <polyline points={lanePoints} fill="none" stroke="currentColor" strokeWidth={1.5} vectorEffect="non-scaling-stroke" className="text-sky-300" />
+            </svg>
+            <div
+              className="absolute top-0 h-full w-px bg-pw-orange"
+              style={{ left: `${(currentTime / (duration || 1)) * 100}%` }}
+            ></div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,8 +1,9 @@
-import { AnalysisResult } from './types';
+import { AnalysisResult, ChannelProfile } from './types';
 
-// RAG (Retrieval-Augmented Generation) Knowledge Base
-// In a real app, this would be fetched from a vector DB based on the channel ID
-export const CHANNEL_CONTEXT = {
+// Seed profile for the channel knowledge base. Users edit, add and import their own
+// profiles in the Channel Profiles manager; this one is created on first run.
+export const DEFAULT_CHANNEL_PROFILE: ChannelProfile = {
+  id: "physics-wallah",
   channelName: "Physics Wallah - Alakh Pandey",
   topPerformingPatterns: {
     hookDuration: "0-15 seconds",
@@ -21,7 +22,7 @@ export const SAMPLE_ANALYSIS: AnalysisResult = {
   videoTitle: "Physics_Lecture_23.mp4",
   score: 89,
   duration: "12:34",
-  platform: "YouTube",
+  platform: "youtube",
   issues: [
     {
       id: "1",
@@ -90,7 +91,7 @@ export const SAMPLE_ANALYSIS: AnalysisResult = {
     ]
   },
   platformFit: {
-    platform: "YouTube",
+    platform: "youtube",
     aspectRatio: true,
     duration: true,
     thumbnail: "low",
@@ -0,0 +1,78 @@
+// --- Analysis Provider Abstraction ---
+// The orchestration in geminiService.ts (chunking, prompting, merging) talks to
+// a provider instead of a concrete SDK, so models can be swapped and the whole
+// pipeline can run offline against recorded fixtures.
+
+import { createGeminiProvider } from './geminiProvider';
+import { createFixtureProvider } from './fixtureProvider';
+import { AnalysisSettings } from './analysisSettings';
+import { Issue, TokenUsage } from '../types';
+
+export type ProviderId = 'gemini' | 'fixture';
+
+export type RemoteFileState = 'PROCESSING' | 'ACTIVE' | 'FAILED';
+
+export interface UploadedFileRef {
+  name: string; // Provider-side handle used for polling (e.g. "files/abc123")
+  uri: string;
+  expiresAt?: string; // ISO timestamp after which the provider deletes the file
+}
+
+export interface RemoteFileStatus {
+  state: RemoteFileState;
+  uri: string;
+  duration: string; // Duration string from API (e.g. "1200s")
+}
+
+export interface SegmentRequest {
+  fileUri: string;
+  mimeType: string;
+  prompt: string;
+  segmentIndex: number;
+  totalSegments: number;
+  signal?: AbortSignal;
+}
+
+// A request that only needs part of the video
+export interface ClipRequest {
+  fileUri: string;
+  mimeType: string;
+  prompt: string;
+  startSeconds: number;
+  endSeconds: number;
+  signal?: AbortSignal;
+}
+
+export interface VerificationRequest extends ClipRequest {
+  issue: Issue; // The issue being re-checked; the clip is the window around it
+}
+
+export interface TranscriptRequest extends ClipRequest {
+  segmentIndex: number;
+}
+
+export interface SegmentResponse {
+  functionCall?: { name: string; args: Record<string, any> };
+  text?: string;
+  usage?: TokenUsage;
+}
+
+export interface AnalysisProvider {
+  id: ProviderId;
+  label: string;
+  model: string; // Used to look up token prices
+  upload: (file: File, signal?: AbortSignal) => Promise<UploadedFileRef>;
+  poll: (name: string, signal?: AbortSignal) => Promise<RemoteFileStatus>;
+  analyzeSegment: (request: SegmentRequest) => Promise<SegmentResponse>;
+  verifyIssue: (request: VerificationRequest) => Promise<SegmentResponse>; // Answers via submit_issue_verification
+  transcribeSegment: (request: TranscriptRequest) => Promise<SegmentResponse>; // Answers via submit_transcript
+  deleteFile: (name: string) => Promise<void>;
+}
+
+/**
+ * Builds the provider selected in Settings.
+ */
+export const createAnalysisProvider = (settings: AnalysisSettings, apiKey: string): AnalysisProvider => {
+  if (settings.provider === 'fixture') return createFixtureProvider();
+  return createGeminiProvider(apiKey, settings.model);
+};
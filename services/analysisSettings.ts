@@ -0,0 +1,63 @@
+import { ProviderId } from './analysisProvider';
+
+// --- Analysis Settings (persisted alongside the other local preferences) ---
+
+// Using gemini-3-pro-preview as it has the best context window for large video files (2GB+)
+export const DEFAULT_GEMINI_MODEL = "gemini-3-pro-preview";
+export const DEFAULT_CONCURRENCY = 3;
+export const MAX_CONCURRENCY = 8;
+export const DEFAULT_OVERLAP_SECONDS = 30; // Each segment also re-checks the tail of the previous one
+export const MAX_OVERLAP_SECONDS = 120;
+
+export interface AnalysisSettings {
+  provider: ProviderId;
+  model: string;
+  concurrency: number; // Segments analyzed in parallel
+  overlapSeconds: number; // Overlap between consecutive segments
+  verifyFindings: boolean; // Second pass over critical/major issues
+  transcribe: boolean; // Timestamped transcript per segment
+  sampleFrames: boolean; // Local scene detection and evidence thumbnails after analysis (opt-in: slow on long lectures)
+}
+
+const PROVIDER_KEY = 'pw_analysis_provider';
+const MODEL_KEY = 'pw_gemini_model';
+const CONCURRENCY_KEY = 'pw_analysis_concurrency';
+const OVERLAP_KEY = 'pw_analysis_overlap_seconds';
+const VERIFY_KEY = 'pw_analysis_verify_findings';
+const TRANSCRIBE_KEY = 'pw_analysis_transcribe';
+const SAMPLE_FRAMES_KEY = 'pw_analysis_sample_frames';
+
+const clampConcurrency = (value: number): number => {
+  if (!Number.isFinite(value)) return DEFAULT_CONCURRENCY;
+  return Math.min(MAX_CONCURRENCY, Math.max(1, Math.round(value)));
+};
+
+const clampOverlap = (value: number): number => {
+  if (!Number.isFinite(value)) return DEFAULT_OVERLAP_SECONDS;
+  return Math.min(MAX_OVERLAP_SECONDS, Math.max(0, Math.round(value)));
+};
+
+export const loadAnalysisSettings = (): AnalysisSettings => {
+  const stored = localStorage.getItem(PROVIDER_KEY);
+  const concurrency = localStorage.getItem(CONCURRENCY_KEY);
+  const overlap = localStorage.getItem(OVERLAP_KEY);
+  return {
+    provider: stored === 'fixture' ? 'fixture' : 'gemini',
+    model: localStorage.getItem(MODEL_KEY) || DEFAULT_GEMINI_MODEL,
+    concurrency: concurrency ? clampConcurrency(parseInt(concurrency, 10)) : DEFAULT_CONCURRENCY,
+    overlapSeconds: overlap ? clampOverlap(parseInt(overlap, 10)) : DEFAULT_OVERLAP_SECONDS,
+    verifyFindings: localStorage.getItem(VERIFY_KEY) === 'true',
+    transcribe: localStorage.getItem(TRANSCRIBE_KEY) === 'true',
+    sampleFrames: localStorage.getItem(SAMPLE_FRAMES_KEY) === 'true'
+  };
+};
+
+export const saveAnalysisSettings = (settings: AnalysisSettings) => {
+  localStorage.setItem(PROVIDER_KEY, settings.provider);
+  localStorage.setItem(MODEL_KEY, settings.model || DEFAULT_GEMINI_MODEL);
+  localStorage.setItem(CONCURRENCY_KEY, String(clampConcurrency(settings.concurrency)));
+  localStorage.setItem(OVERLAP_KEY, String(clampOverlap(settings.overlapSeconds)));
+  localStorage.setItem(VERIFY_KEY, String(settings.verifyFindings));
+  localStorage.setItem(TRANSCRIBE_KEY, String(settings.transcribe));
+  localStorage.setItem(SAMPLE_FRAMES_KEY, String(settings.sampleFrames));
+};
@@ -0,0 +1,369 @@
+import { Issue, IssueSeverity, IssueType, IssueVerification, MarketingData, PlatformFit, PlatformId, TextRegion, TranscriptLanguage, TranscriptLine, VerificationVerdict } from '../types';
+
+// --- Runtime Validation of `submit_video_analysis` Payloads ---
+// Mirrors the schema declared in geminiProvider's `analysisTool`. The model does not always
+// honour it, so every field is normalised here: bad values are coerced or replaced with safe
+// defaults, scores are clamped, and each correction is recorded as a warning for the report.
+
+export type ValidatedIssue = Omit<Issue, 'id' | 'fixed'>;
+
+export interface ValidatedPayload {
+  score: number;
+  issues: ValidatedIssue[];
+  marketing: MarketingData;
+  platformFit: PlatformFit;
+}
+
+export interface ValidationOutcome {
+  value: ValidatedPayload;
+  warnings: string[];
+}
+
+const ISSUE_TYPES: IssueType[] = ['spelling', 'factual', 'clarity', 'marketing', 'platform', 'caption-spelling', 'caption-mismatch', 'caption-sync'];
+const SEVERITIES: IssueSeverity[] = ['critical', 'major', 'minor', 'suggestion'];
+const THUMBNAIL_RATINGS: PlatformFit['thumbnail'][] = ['low', 'medium', 'high'];
+const TIMESTAMP_PATTERN = /^\d{1,2}(:\d{2}){1,2}$/; // MM:SS or HH:MM:SS
+
+// Common off-schema answers mapped back onto the enum
+const SEVERITY_ALIASES: Record<string, IssueSeverity> = {
+  high: 'major',
+  severe: 'critical',
+  error: 'major',
+  medium: 'minor',
+  moderate: 'minor',
+  warning: 'minor',
+  low: 'suggestion',
+  info: 'suggestion'
+};
+
+const TYPE_ALIASES: Record<string, IssueType> = {
+  typo: 'spelling',
+  grammar: 'spelling',
+  accuracy: 'factual',
+  formula: 'factual',
+  audio: 'clarity',
+  visual: 'clarity',
+  engagement: 'marketing',
+  format: 'platform',
+  caption_spelling: 'caption-spelling',
+  caption_mismatch: 'caption-mismatch',
+  caption_sync: 'caption-sync',
+  subtitle: 'caption-mismatch'
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  return null;
+};
+
+const toBoolean = (value: unknown): boolean | null => {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return null;
+};
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const formatTimestamp = (seconds: number): string => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return h > 0 ? `${pad(h)}:${pad(m)}:${pad(s)}` : `${pad(m)}:${pad(s)}`;
+};
+
+// Models answer 0-1 or 0-100 interchangeably; both map onto 0-1
+const toConfidence = (value: number): number =>
+  Math.round(clamp(value > 1 ? value / 100 : value, 0, 1) * 100) / 100;
+
+// Percent of the frame; fractions (all values <= 1) are scaled up. Clipped to the frame.
+const toTextRegion = (value: unknown): TextRegion | null => {
+  if (!isObject(value)) return null;
+  const numbers = [value.x, value.y, value.width, value.height].map(toNumber);
+  if (numbers.some(n => n === null)) return null;
+  const scale = (numbers as number[]).every(n => n <= 1) ? 100 : 1;
+  const [x, y, width, height] = (numbers as number[]).map(n => n * scale);
+  const left = clamp(x, 0, 100), top = clamp(y, 0, 100);
+  const region = { x: left, y: top, width: clamp(x + width, 0, 100) - left, height: clamp(y + height, 0, 100) - top };
+  return region.width > 0 && region.height > 0 ? region : null;
+};
+
+const validateScore = (
+  raw: unknown,
+  field: string,
+  max: number,
+  fallback: number,
+  warnings: string[],
+  required: boolean
+): number => {
+  const value = toNumber(raw);
+  if (value === null) {
+    if (required || raw !== undefined) warnings.push(`${field} was ${raw === undefined ? 'missing' : 'not a number'}; defaulted to ${fallback}.`);
+    return fallback;
+  }
+  const clamped = clamp(value, 0, max);
+  if (clamped !== value) warnings.push(`${field} ${value} was outside 0-${max}; clamped to ${clamped}.`);
+  return Math.round(clamped * 10) / 10;
+};
+
+const validateIssue = (raw: unknown, index: number, warnings: string[]): ValidatedIssue | null => {
+  const label = `Issue #${index + 1}`;
+  if (!isObject(raw)) {
+    warnings.push(`${label} was not an object and was dropped.`);
+    return null;
+  }
+
+  // Bare numbers are read as seconds
+  const seconds = typeof raw.timestamp === 'number' ? toNumber(raw.timestamp) : null;
+  const timestamp = seconds !== null && seconds >= 0 ? formatTimestamp(seconds) : optionalString(raw.timestamp);
+  const description = optionalString(raw.description);
+  if (!timestamp || !description) {
+    warnings.push(`${label} was missing ${!timestamp ? 'a timestamp' : 'a description'} and was dropped.`);
+    return null;
+  }
+  if (seconds !== null) {
+    warnings.push(`${label} gave its timestamp as ${seconds} seconds; converted to ${timestamp}.`);
+  } else if (!TIMESTAMP_PATTERN.test(timestamp)) {
+    warnings.push(`${label} had a malformed timestamp "${timestamp}"; it may be placed wrongly on the timeline.`);
+  }
+
+  let endTimestamp = optionalString(raw.endTimestamp);
+  if (endTimestamp && !TIMESTAMP_PATTERN.test(endTimestamp)) {
+    warnings.push(`${label} (${timestamp}) had a malformed endTimestamp "${endTimestamp}"; ignored.`);
+    endTimestamp = undefined;
+  }
+
+  const rawType = String(raw.type ?? '').toLowerCase().trim();
+  let type = (ISSUE_TYPES as string[]).includes(rawType) ? rawType as IssueType : TYPE_ALIASES[rawType];
+  if (!type) {
+    warnings.push(`${label} (${timestamp}) had unknown type "${raw.type ?? ''}"; treated as clarity.`);
+    type = 'clarity';
+  }
+
+  const rawSeverity = String(raw.severity ?? '').toLowerCase().trim();
+  let severity = (SEVERITIES as string[]).includes(rawSeverity) ? rawSeverity as IssueSeverity : SEVERITY_ALIASES[rawSeverity];
+  if (!severity) {
+    warnings.push(`${label} (${timestamp}) had unknown severity "${raw.severity ?? ''}"; treated as minor.`);
+    severity = 'minor';
+  }
+
+  let confidence: number | undefined;
+  if (raw.confidence !== undefined) {
+    const value = toNumber(raw.confidence);
+    if (value === null) warnings.push(`${label} (${timestamp}) had a non-numeric confidence; ignored.`);
+    else confidence = toConfidence(value);
+  }
+
+  let cueIndex: number | undefined;
+  if (raw.cueIndex !== undefined) {
+    const value = toNumber(raw.cueIndex);
+    if (value === null || value < 1) warnings.push(`${label} (${timestamp}) had an invalid cueIndex; ignored.`);
+    else cueIndex = Math.round(value);
+  }
+  let textRegion: TextRegion | undefined;
+  if (raw.textRegion !== undefined) {
+    textRegion = toTextRegion(raw.textRegion) || undefined;
+    if (!textRegion) warnings.push(`${label} (${timestamp}) had an invalid textRegion; ignored.`);
+  }
+
+  if (type.startsWith('caption-') && cueIndex === undefined) {
+    warnings.push(`${label} (${timestamp}) is a caption issue without a cue index; it cannot be applied to the caption file.`);
+  }
+
+  return {
+    timestamp,
+    endTimestamp,
+    type,
+    checkId: optionalString(raw.checkId),
+    severity,
+    description,
+    found: optionalString(raw.found),
+    shouldBe: optionalString(raw.shouldBe),
+    impact: optionalString(raw.impact),
+    confidence,
+    evidence: optionalString(raw.evidence),
+    cueIndex,
+    textRegion
+  };
+};
+
+const validateMarketing = (raw: unknown, warnings: string[]): MarketingData => {
+  if (!isObject(raw)) {
+    warnings.push("marketing block was missing; scores defaulted to 0.");
+    raw = {};
+  }
+  const m = raw as Record<string, any>;
+
+  const retentionCurve = (Array.isArray(m.retentionCurve) ? m.retentionCurve : [])
+    .filter((point: unknown) => isObject(point) && optionalString(point.time) && toNumber(point.value) !== null)
+    .map((point: Record<string, any>) => ({
+      time: String(point.time).trim(),
+      value: clamp(toNumber(point.value) as number, 0, 100),
+      ...(optionalString(point.label) ? { label: optionalString(point.label) } : {})
+    }));
+  if (Array.isArray(m.retentionCurve) && retentionCurve.length < m.retentionCurve.length) {
+    warnings.push(`${m.retentionCurve.length - retentionCurve.length} retention point(s) were malformed and dropped.`);
+  }
+
+  return {
+    overallScore: validateScore(m.overallScore, 'marketing.overallScore', 100, 0, warnings, true),
+    hookScore: validateScore(m.hookScore, 'marketing.hookScore', 10, 0, warnings, true),
+    hookFeedback: optionalString(m.hookFeedback) ?? '',
+    ctaScore: validateScore(m.ctaScore, 'marketing.ctaScore', 10, 0, warnings, false),
+    ctaFeedback: optionalString(m.ctaFeedback) ?? '',
+    retentionCurve
+  };
+};
+
+const validatePlatformFit = (raw: unknown, platform: PlatformId, warnings: string[]): PlatformFit => {
+  if (!isObject(raw)) {
+    warnings.push("platformFit block was missing; all checks marked as not passed.");
+    raw = {};
+  }
+  const p = raw as Record<string, any>;
+
+  const bool = (field: 'aspectRatio' | 'duration' | 'captions'): boolean => {
+    const value = toBoolean(p[field]);
+    if (value === null) {
+      if (isObject(raw) && Object.keys(p).length > 0) warnings.push(`platformFit.${field} was missing or invalid; marked as not passed.`);
+      return false;
+    }
+    return value;
+  };
+
+  const rawThumbnail = String(p.thumbnail ?? '').toLowerCase().trim();
+  let thumbnail = rawThumbnail as PlatformFit['thumbnail'];
+  if (!THUMBNAIL_RATINGS.includes(thumbnail)) {
+    if (Object.keys(p).length > 0) warnings.push(`platformFit.thumbnail "${p.thumbnail ?? ''}" was invalid; treated as low.`);
+    thumbnail = 'low';
+  }
+
+  return {
+    platform,
+    aspectRatio: bool('aspectRatio'),
+    duration: bool('duration'),
+    thumbnail,
+    captions: bool('captions')
+  };
+};
+
+/**
+ * Validates raw function-call args. Throws only when the payload is unusable as a whole
+ * (not an object); every other problem is repaired and reported in `warnings`.
+ */
+export const validateAnalysisPayload = (args: unknown, platform: PlatformId): ValidationOutcome => {
+  if (!isObject(args)) {
+    throw new Error("AI returned malformed structured data. Retrying recommended.");
+  }
+
+  const warnings: string[] = [];
+
+  let rawIssues: unknown[] = [];
+  if (Array.isArray(args.issues)) {
+    rawIssues = args.issues;
+  } else if (args.issues !== undefined) {
+    warnings.push("issues was not a list and was ignored.");
+  } else {
+    warnings.push("issues list was missing.");
+  }
+
+  const issues = rawIssues
+    .map((issue, i) => validateIssue(issue, i, warnings))
+    .filter((issue): issue is ValidatedIssue => issue !== null);
+
+  return {
+    value: {
+      score: validateScore(args.score, 'score', 100, 0, warnings, true),
+      issues,
+      marketing: validateMarketing(args.marketing, warnings),
+      platformFit: validatePlatformFit(args.platformFit, platform, warnings)
+    },
+    warnings
+  };
+};
+
+const VERDICTS: VerificationVerdict[] = ['confirmed', 'refuted', 'uncertain'];
+
+export interface VerificationOutcome {
+  value: Omit<IssueVerification, 'originalSeverity'>;
+  warnings: string[];
+}
+
+/**
+ * Validates `submit_issue_verification` args. An unknown verdict becomes "uncertain" so a bad
+ * answer never demotes an issue.
+ */
+export const validateVerificationPayload = (args: unknown): VerificationOutcome => {
+  if (!isObject(args)) {
+    throw new Error("AI returned malformed structured data. Retrying recommended.");
+  }
+
+  const warnings: string[] = [];
+  const rawVerdict = String(args.verdict ?? '').toLowerCase().trim();
+  let verdict = rawVerdict as VerificationVerdict;
+  if (!VERDICTS.includes(verdict)) {
+    warnings.push(`verdict "${args.verdict ?? ''}" was invalid; treated as uncertain.`);
+    verdict = 'uncertain';
+  }
+
+  let confidence = toNumber(args.confidence);
+  if (confidence === null) {
+    warnings.push("confidence was missing or not a number; defaulted to 0.5.");
+    confidence = 0.5;
+  }
+
+  return {
+    value: {
+      verdict,
+      confidence: toConfidence(confidence),
+      reasoning: optionalString(args.reasoning) ?? ''
+    },
+    warnings
+  };
+};
+
+const TRANSCRIPT_LANGUAGES: TranscriptLanguage[] = ['hi', 'en', 'mixed'];
+
+export interface TranscriptOutcome {
+  value: TranscriptLine[];
+  warnings: string[];
+}
+
+/**
+ * Validates `submit_transcript` args. Lines without a start time or text are dropped;
+ * timestamps are returned as given (the caller corrects relative ones).
+ */
+export const validateTranscriptPayload = (args: unknown): TranscriptOutcome => {
+  if (!isObject(args) || !Array.isArray(args.lines)) {
+    throw new Error("AI returned malformed structured data. Retrying recommended.");
+  }
+
+  const warnings: string[] = [];
+  const lines: TranscriptLine[] = [];
+  args.lines.forEach((raw: unknown) => {
+    if (!isObject(raw)) return;
+    const start = optionalString(raw.start);
+    const text = optionalString(raw.text);
+    if (!start || !text) return;
+    const language = String(raw.language ?? '').toLowerCase().trim() as TranscriptLanguage;
+    lines.push({
+      start,
+      end: optionalString(raw.end),
+      text,
+      ...(TRANSCRIPT_LANGUAGES.includes(language) ? { language } : {})
+    });
+  });
+  if (lines.length < args.lines.length) {
+    warnings.push(`${args.lines.length - lines.length} transcript line(s) were malformed and dropped.`);
+  }
+
+  return { value: lines, warnings };
+};
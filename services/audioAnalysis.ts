@@ -0,0 +1,298 @@
+import { AudioMetrics, LoudnessPoint } from '../types';
+import { ValidatedIssue } from './analysisValidator';
+import { throwIfAborted } from './retry';
+
+// --- Local Audio Analysis ---
+// Decodes the soundtrack in the browser and measures it, so clarity issues about the audio are
+// exact rather than whatever the model noticed. Loudness follows ITU-R BS.1770 (K-weighting,
+// 400 ms momentary / 3 s short-term blocks, gated integration). Audio is resampled to 16 kHz
+// first to keep memory in check on long lectures, so readings are "LUFS-style" estimates.
+
+const ANALYSIS_SAMPLE_RATE = 16000;
+// decodeAudioData needs the whole file in memory next to the decoded PCM (~128 KB/s of stereo
+// at 16 kHz), so long or large files are skipped rather than risking the tab
+const MAX_AUDIO_FILE_BYTES = 512 * 1024 * 1024;
+const MAX_AUDIO_SECONDS = 90 * 60;
+const SUB_BLOCK_SECONDS = 0.1;
+const MOMENTARY_SUB_BLOCKS = 4; // 400 ms
+const SHORT_TERM_SUB_BLOCKS = 30; // 3 s
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = 10;
+const SILENCE_LUFS = -50;
+const MIN_SILENCE_SECONDS = 4;
+const DIP_LU = 10; // Drop below the recent level that counts as a dip
+const DIP_REFERENCE_SECONDS = 20;
+const MIN_DIP_SECONDS = 2;
+const CLIP_LEVEL = 0.98;
+const CLIPPED_SAMPLES_PER_SECOND = 10;
+const TARGET_LUFS = -14; // Common streaming normalisation target
+const TARGET_TOLERANCE_LU = 6;
+const MAX_LANE_POINTS = 1200;
+const YIELD_EVERY_SUB_BLOCKS = 600; // Hand the main thread back every minute of audio
+
+export interface AudioAnalysis {
+  metrics: AudioMetrics;
+  issues: ValidatedIssue[]; // `clarity` issues with exact ranges; ids are assigned when merged
+}
+
+// Either the measurements or why there are none, for the report's processing notes
+export type AudioAnalysisOutcome =
+  | { analysis: AudioAnalysis; skipped?: undefined }
+  | { analysis: null; skipped: string };
+
+const skip = (reason: string): AudioAnalysisOutcome => ({ analysis: null, skipped: reason });
+
+interface Biquad {
+  b0: number; b1: number; b2: number;
+  a1: number; a2: number;
+}
+
+// BS.1770 K-weighting for an arbitrary sample rate (stage 1: head shelf, stage 2: RLB high-pass)
+const kWeighting = (sampleRate: number): [Biquad, Biquad] => {
+  let K = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf: Biquad = {
+    b0: (Vh + Vb * K / Q + K * K) / a0,
+    b1: 2 * (K * K - Vh) / a0,
+    b2: (Vh - Vb * K / Q + K * K) / a0,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q + K * K) / a0
+  };
+
+  K = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass: Biquad = {
+    b0: 1, b1: -2, b2: 1,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q + K * K) / a0
+  };
+  return [shelf, highPass];
+};
+
+const toLufs = (meanSquare: number): number =>
+  meanSquare > 0 ? -0.691 + 10 * Math.log10(meanSquare) : -Infinity;
+
+const formatTimestamp = (seconds: number): string => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return h > 0 ? `${pad(h)}:${pad(m)}:${pad(s)}` : `${pad(m)}:${pad(s)}`;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Collapses per-step flags into [start, end) ranges in seconds, bridging gaps up to `maxGap` steps.
+ */
+const toRanges = (flags: boolean[], stepSeconds: number, maxGap = 0): { start: number; end: number }[] => {
+  const ranges: { start: number; end: number }[] = [];
+  let start = -1;
+  let lastOn = -1;
+  flags.forEach((on, i) => {
+    if (!on) return;
+    if (start !== -1 && i - lastOn - 1 > maxGap) {
+      ranges.push({ start: start * stepSeconds, end: (lastOn + 1) * stepSeconds });
+      start = -1;
+    }
+    if (start === -1) start = i;
+    lastOn = i;
+  });
+  if (start !== -1) ranges.push({ start: start * stepSeconds, end: (lastOn + 1) * stepSeconds });
+  return ranges;
+};
+
+const decodeAudio = async (file: File): Promise<AudioBuffer> => {
+  const data = await file.arrayBuffer();
+  // Decoding through an offline context resamples to its rate
+  const context = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+  return context.decodeAudioData(data);
+};
+
+/**
+ * Measures the file's soundtrack, or says why it could not: a file too large or long to decode
+ * in the browser (checked before anything is read when the probed duration is known), a
+ * soundtrack the browser cannot decode, or one too short to measure. Throws only on cancellation.
+ */
+export const analyzeAudio = async (
+  file: File,
+  options: { signal?: AbortSignal; durationSeconds?: number } = {}
+): Promise<AudioAnalysisOutcome> => {
+  const { signal, durationSeconds } = options;
+  if (file.size > MAX_AUDIO_FILE_BYTES) {
+    return skip(`Audio was not measured: the file is over ${MAX_AUDIO_FILE_BYTES / (1024 * 1024)} MB, too large to decode in the browser.`);
+  }
+  if (durationSeconds !== undefined && durationSeconds > MAX_AUDIO_SECONDS) {
+    return skip(`Audio was not measured: the video is over ${MAX_AUDIO_SECONDS / 60} minutes, too long to decode in the browser.`);
+  }
+
+  let buffer: AudioBuffer;
+  try {
+    buffer = await decodeAudio(file);
+  } catch (error) {
+    console.warn("Audio decoding failed:", error);
+    return skip("Audio was not measured: this browser could not decode the soundtrack.");
+  }
+  throwIfAborted(signal);
+
+  const sampleRate = buffer.sampleRate;
+  const subBlockSamples = Math.round(sampleRate * SUB_BLOCK_SECONDS);
+  const subBlockCount = Math.floor(buffer.length / subBlockSamples);
+  if (subBlockCount < MOMENTARY_SUB_BLOCKS) return skip("Audio was not measured: the soundtrack is too short.");
+
+  // Surround channels would need their own weights; stereo/mono covers lecture footage
+  const channels = Array.from({ length: Math.min(buffer.numberOfChannels, 2) }, (_, c) => buffer.getChannelData(c));
+  const [shelf, highPass] = kWeighting(sampleRate);
+
+  // Per 100 ms: K-weighted energy summed over channels, raw peak and clipped sample count
+  const energy = new Float64Array(subBlockCount);
+  const clipped = new Uint32Array(subBlockCount);
+  let peak = 0;
+
+  for (const samples of channels) {
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0; // shelf state
+    let u1 = 0, u2 = 0, z1 = 0, z2 = 0; // high-pass state
+    for (let block = 0; block < subBlockCount; block++) {
+      let sum = 0;
+      const offset = block * subBlockSamples;
+      for (let i = offset; i < offset + subBlockSamples; i++) {
+        const x = samples[i];
+        const abs = Math.abs(x);
+        if (abs > peak) peak = abs;
+        if (abs >= CLIP_LEVEL) clipped[block]++;
+
+        const y = shelf.b0 * x + shelf.b1 * x1 + shelf.b2 * x2 - shelf.a1 * y1 - shelf.a2 * y2;
+        x2 = x1; x1 = x; y2 = y1; y1 = y;
+        const z = highPass.b0 * y + highPass.b1 * u1 + highPass.b2 * u2 - highPass.a1 * z1 - highPass.a2 * z2;
+        u2 = u1; u1 = y; z2 = z1; z1 = z;
+        sum += z * z;
+      }
+      energy[block] += sum / subBlockSamples;
+      if (block % YIELD_EVERY_SUB_BLOCKS === 0) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+        throwIfAborted(signal);
+      }
+    }
+  }
+
+  const windowLoudness = (end: number, size: number): number => {
+    let sum = 0;
+    for (let i = end - size + 1; i <= end; i++) sum += energy[i];
+    return toLufs(sum / size);
+  };
+
+  // Momentary loudness every 100 ms (75% overlap) drives gating and silence detection
+  const momentary: number[] = [];
+  for (let end = MOMENTARY_SUB_BLOCKS - 1; end < subBlockCount; end++) momentary.push(windowLoudness(end, MOMENTARY_SUB_BLOCKS));
+
+  // Gated integrated loudness
+  const aboveAbsolute = momentary.filter(l => l > ABSOLUTE_GATE_LUFS);
+  let integratedLufs: number | null = null;
+  if (aboveAbsolute.length > 0) {
+    const ungated = toLufs(aboveAbsolute.reduce((sum, l) => sum + Math.pow(10, (l + 0.691) / 10), 0) / aboveAbsolute.length);
+    const gated = aboveAbsolute.filter(l => l > ungated - RELATIVE_GATE_LU);
+    integratedLufs = Math.round(toLufs(gated.reduce((sum, l) => sum + Math.pow(10, (l + 0.691) / 10), 0) / gated.length) * 10) / 10;
+  }
+
+  // Short-term loudness once per second for the lane and dip detection
+  const stepsPerSecond = Math.round(1 / SUB_BLOCK_SECONDS);
+  const shortTerm: LoudnessPoint[] = [];
+  for (let end = SHORT_TERM_SUB_BLOCKS - 1; end < subBlockCount; end += stepsPerSecond) {
+    shortTerm.push({ time: (end + 1) * SUB_BLOCK_SECONDS, lufs: windowLoudness(end, SHORT_TERM_SUB_BLOCKS) });
+  }
+
+  const issues: ValidatedIssue[] = [];
+  const rangeIssue = (start: number, end: number, severity: ValidatedIssue['severity'], description: string, evidence: string, impact: string): ValidatedIssue => ({
+    timestamp: formatTimestamp(start),
+    endTimestamp: end - start >= 1 ? formatTimestamp(end) : undefined,
+    type: 'clarity',
+    checkId: 'audio',
+    severity,
+    description,
+    impact,
+    evidence,
+    confidence: 1
+  });
+
+  // Long silences (momentary index i covers [i, i + 0.4s))
+  toRanges(momentary.map(l => l < SILENCE_LUFS), SUB_BLOCK_SECONDS, 2)
+    .filter(r => r.end - r.start >= MIN_SILENCE_SECONDS)
+    .forEach(r => issues.push(rangeIssue(r.start, r.end + MOMENTARY_SUB_BLOCKS * SUB_BLOCK_SECONDS, 'minor',
+      `No audible speech for ${Math.round(r.end - r.start)}s`,
+      `Measured: below ${SILENCE_LUFS} LUFS throughout`,
+      "Dead air loses viewers unless the pause is intentional (e.g. writing on the board).")));
+
+  // Sudden drops relative to the preceding stretch of speech
+  const dips = shortTerm.map((point, i) => {
+    if (point.lufs < SILENCE_LUFS) return false;
+    const history = shortTerm.slice(Math.max(0, i - DIP_REFERENCE_SECONDS), i).map(p => p.lufs).filter(l => l >= SILENCE_LUFS);
+    return history.length >= DIP_REFERENCE_SECONDS / 2 && point.lufs < median(history) - DIP_LU;
+  });
+  toRanges(dips, 1, 1)
+    .filter(r => r.end - r.start >= MIN_DIP_SECONDS)
+    .forEach(r => {
+      const startIndex = Math.round(r.start);
+      const reference = median(shortTerm.slice(Math.max(0, startIndex - DIP_REFERENCE_SECONDS), startIndex).map(p => p.lufs).filter(l => l >= SILENCE_LUFS));
+      const lowest = Math.min(...shortTerm.slice(startIndex, Math.round(r.end)).map(p => p.lufs));
+      // Short-term point i describes the 3 s ending at its time
+      const start = Math.max(0, shortTerm[startIndex].time - SHORT_TERM_SUB_BLOCKS * SUB_BLOCK_SECONDS);
+      const end = shortTerm[Math.min(shortTerm.length - 1, Math.round(r.end) - 1)].time;
+      issues.push(rangeIssue(start, end, 'major',
+        `Audio level drops by ${Math.round(reference - lowest)} LU`,
+        `Measured: ${Math.round(lowest)} LUFS short-term vs ${Math.round(reference)} LUFS just before`,
+        "Students miss the explanation when the voice suddenly gets quieter."));
+    });
+
+  // Clipping, counted per second
+  const clippedPerSecond = Array.from({ length: Math.ceil(subBlockCount / stepsPerSecond) }, (_, s) => {
+    let count = 0;
+    for (let i = s * stepsPerSecond; i < Math.min(subBlockCount, (s + 1) * stepsPerSecond); i++) count += clipped[i];
+    return count >= CLIPPED_SAMPLES_PER_SECOND;
+  });
+  toRanges(clippedPerSecond, 1, 1).forEach(r => issues.push(rangeIssue(r.start, r.end, 'major',
+    "Audio is clipping (distorted)",
+    `Measured: samples at or above ${Math.round(20 * Math.log10(CLIP_LEVEL) * 10) / 10} dBFS`,
+    "Clipped speech sounds harsh and cannot be repaired after upload.")));
+
+  if (integratedLufs !== null && Math.abs(integratedLufs - TARGET_LUFS) > TARGET_TOLERANCE_LU) {
+    issues.push({
+      timestamp: formatTimestamp(0),
+      type: 'clarity',
+      checkId: 'audio',
+      severity: 'suggestion',
+      description: `Overall loudness is ${integratedLufs} LUFS, ${integratedLufs < TARGET_LUFS ? 'well below' : 'well above'} the ${TARGET_LUFS} LUFS streaming target`,
+      impact: integratedLufs < TARGET_LUFS
+        ? "Platforms do not boost quiet uploads much; the lecture will sound faint next to other videos."
+        : "Platforms turn loud uploads down, and any limiting already applied stays audible.",
+      evidence: `Measured: integrated ${integratedLufs} LUFS`,
+      confidence: 1
+    });
+  }
+
+  // Keep the lane small enough to store with the result
+  const bucket = Math.max(1, Math.ceil(shortTerm.length / MAX_LANE_POINTS));
+  const loudnessLane: LoudnessPoint[] = [];
+  for (let i = 0; i < shortTerm.length; i += bucket) {
+    const slice = shortTerm.slice(i, i + bucket);
+    const lufs = Math.min(...slice.map(p => p.lufs));
+    loudnessLane.push({ time: slice[0].time, lufs: Number.isFinite(lufs) ? Math.round(lufs * 10) / 10 : ABSOLUTE_GATE_LUFS });
+  }
+
+  return {
+    analysis: {
+      metrics: {
+        integratedLufs,
+        peakDbfs: peak > 0 ? Math.round(20 * Math.log10(peak) * 10) / 10 : null,
+        loudnessLane
+      },
+      issues
+    }
+  };
+};
@@ -0,0 +1,117 @@
+import { CaptionCue, CaptionFormat, CaptionTrack, Issue } from '../types';
+
+// --- Caption Files (SRT / WebVTT) ---
+// Parsed entirely in the browser. Cues keep millisecond timings so a corrected file can be
+// written back without drifting from the original.
+
+// Cue timing line: "00:01:02,500 --> 00:01:04,000" (SRT) or "01:02.500 --> 01:04.000 align:start" (VTT)
+const TIMING_PATTERN = /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+// Caption issue types whose `found`/`shouldBe` is cue text
+const TEXT_FIX_TYPES: Issue['type'][] = ['caption-spelling', 'caption-mismatch'];
+
+const parseCueTime = (value: string): number => {
+  const [clock, fraction = '0'] = value.replace(',', '.').split('.');
+  const parts = clock.split(':').map(Number);
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return seconds + Number(fraction.padEnd(3, '0')) / 1000;
+};
+
+const formatCueTime = (seconds: number, format: CaptionFormat): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3_600_000);
+  const m = Math.floor((totalMs % 3_600_000) / 60_000);
+  const s = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${format === 'srt' ? ',' : '.'}${pad(ms, 3)}`;
+};
+
+export const getCaptionFormat = (fileName: string, text: string): CaptionFormat =>
+  text.trimStart().startsWith('WEBVTT') || fileName.toLowerCase().endsWith('.vtt') ? 'vtt' : 'srt';
+
+/**
+ * Parses an SRT or WebVTT file. VTT header, NOTE, STYLE and REGION blocks are skipped and
+ * cue settings are dropped. Throws when no cue could be read.
+ */
+export const parseCaptions = (text: string, fileName: string): CaptionTrack => {
+  const format = getCaptionFormat(fileName, text);
+  const blocks = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  const cues: CaptionCue[] = [];
+
+  blocks.forEach(block => {
+    const lines = block.split('\n').filter(line => line.trim() !== '');
+    const timingIndex = lines.findIndex(line => TIMING_PATTERN.test(line.trim()));
+    if (timingIndex === -1) return;
+    const match = lines[timingIndex].trim().match(TIMING_PATTERN)!;
+    const cueText = lines.slice(timingIndex + 1).join('\n').trim();
+    if (!cueText) return;
+    cues.push({
+      index: cues.length + 1,
+      start: parseCueTime(match[1]),
+      end: parseCueTime(match[2]),
+      text: cueText
+    });
+  });
+
+  if (cues.length === 0) throw new Error(`No caption cues found in ${fileName}`);
+  return { fileName, format, cues };
+};
+
+/**
+ * Writes a track back out in its original format, renumbering SRT cues.
+ */
+export const serializeCaptions = (track: CaptionTrack): string => {
+  const body = track.cues.map((cue, i) => {
+    const timing = `${formatCueTime(cue.start, track.format)} --> ${formatCueTime(cue.end, track.format)}`;
+    return track.format === 'srt' ? `${i + 1}\n${timing}\n${cue.text}` : `${timing}\n${cue.text}`;
+  }).join('\n\n');
+  return track.format === 'vtt' ? `WEBVTT\n\n${body}\n` : `${body}\n`;
+};
+
+/**
+ * Cues overlapping [start, end), for the prompt of one segment.
+ */
+export const getCuesInWindow = (track: CaptionTrack, start: number, end: number): CaptionCue[] =>
+  track.cues.filter(cue => cue.end > start && cue.start < end);
+
+/**
+ * One line per cue for the prompt: "#12 [00:01:02.500 --> 00:01:04.000] text".
+ */
+export const formatCuesForPrompt = (cues: CaptionCue[]): string =>
+  cues.map(cue => `#${cue.index} [${formatCueTime(cue.start, 'vtt')} --> ${formatCueTime(cue.end, 'vtt')}] ${cue.text.replace(/\n/g, ' / ')}`).join("\n      ");
+
+/**
+ * Applies accepted (fixed) caption issues to a copy of the track. Text fixes replace `found`
+ * with `shouldBe` inside the cue; sync fixes apply a `shouldBe` of the form "start --> end".
+ * Returns the corrected track and how many fixes could be applied.
+ */
+export const applyCaptionFixes = (track: CaptionTrack, issues: Issue[]): { track: CaptionTrack; applied: number } => {
+  const cues = track.cues.map(cue => ({ ...cue }));
+  let applied = 0;
+
+  issues.forEach(issue => {
+    if (!issue.fixed || issue.cueIndex === undefined || !issue.shouldBe) return;
+    const cue = cues.find(c => c.index === issue.cueIndex);
+    if (!cue) return;
+
+    if (issue.type === 'caption-sync') {
+      const match = issue.shouldBe.trim().match(TIMING_PATTERN);
+      if (!match) return;
+      cue.start = parseCueTime(match[1]);
+      cue.end = parseCueTime(match[2]);
+      applied++;
+    } else if (TEXT_FIX_TYPES.includes(issue.type)) {
+      if (issue.found && cue.text.includes(issue.found)) {
+        cue.text = cue.text.replace(issue.found, issue.shouldBe);
+        applied++;
+      } else if (issue.type === 'caption-mismatch' && !issue.found) {
+        // A mismatch without a quoted fragment carries the whole corrected cue
+        cue.text = issue.shouldBe;
+        applied++;
+      }
+    }
+  });
+
+  return { track: { ...track, cues }, applied };
+};
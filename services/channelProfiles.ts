@@ -0,0 +1,101 @@
+import { DEFAULT_CHANNEL_PROFILE } from '../constants';
+import { ChannelProfile } from '../types';
+
+// --- Channel Knowledge Base ---
+// Profiles are small, so they live in localStorage next to the other preferences.
+
+const PROFILES_KEY = 'pw_channel_profiles';
+const LAST_PROFILE_KEY = 'pw_last_channel_profile';
+
+const slugify = (name: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'channel';
+
+const toStringList = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(v => String(v).trim()).filter(Boolean);
+  if (typeof value === 'string') return value.split(',').map(v => v.trim()).filter(Boolean);
+  return [];
+};
+
+/**
+ * Coerces anything profile-shaped (e.g. an imported JSON file) into a complete ChannelProfile.
+ * Returns null when there is not even a channel name to go on.
+ */
+export const normalizeChannelProfile = (raw: any): ChannelProfile | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const channelName = typeof raw.channelName === 'string' ? raw.channelName.trim() : '';
+  if (!channelName) return null;
+
+  const patterns = raw.topPerformingPatterns || {};
+  const brand = raw.brandGuidelines || {};
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : slugify(channelName),
+    channelName,
+    topPerformingPatterns: {
+      hookDuration: String(patterns.hookDuration ?? '').trim(),
+      avgViewDuration: String(patterns.avgViewDuration ?? '').trim(),
+      winningFormats: toStringList(patterns.winningFormats),
+      commonPitfalls: toStringList(patterns.commonPitfalls)
+    },
+    brandGuidelines: {
+      tone: String(brand.tone ?? '').trim(),
+      visuals: String(brand.visuals ?? '').trim(),
+      colors: toStringList(brand.colors)
+    },
+    updatedAt: typeof raw.updatedAt === 'number' ? raw.updatedAt : Date.now()
+  };
+};
+
+export const loadChannelProfiles = (): ChannelProfile[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROFILES_KEY) || 'null');
+    if (Array.isArray(stored)) {
+      const profiles = stored.map(normalizeChannelProfile).filter((p): p is ChannelProfile => !!p);
+      if (profiles.length > 0) return profiles;
+    }
+  } catch (e) {
+    console.error("Channel profile parsing failed", e);
+  }
+  return [DEFAULT_CHANNEL_PROFILE];
+};
+
+export const saveChannelProfiles = (profiles: ChannelProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const getChannelProfile = (id: string | null | undefined): ChannelProfile => {
+  const profiles = loadChannelProfiles();
+  return profiles.find(p => p.id === id) || profiles[0];
+};
+
+/**
+ * Makes `id` unique among existing profiles by appending -2, -3, ...
+ */
+export const uniqueProfileId = (id: string, profiles: ChannelProfile[]): string => {
+  let candidate = id;
+  let n = 2;
+  while (profiles.some(p => p.id === candidate)) candidate = `${id}-${n++}`;
+  return candidate;
+};
+
+/**
+ * Parses an exported profiles file (a single profile or a list). Profiles whose id already
+ * exists replace the stored version.
+ */
+export const importChannelProfiles = (json: string, existing: ChannelProfile[]): { profiles: ChannelProfile[]; imported: number } => {
+  const parsed = JSON.parse(json);
+  const incoming = (Array.isArray(parsed) ? parsed : [parsed])
+    .map(normalizeChannelProfile)
+    .filter((p): p is ChannelProfile => !!p);
+  if (incoming.length === 0) throw new Error("No valid channel profiles found in file.");
+
+  const byId = new Map(existing.map(p => [p.id, p]));
+  incoming.forEach(p => byId.set(p.id, p));
+  return { profiles: Array.from(byId.values()), imported: incoming.length };
+};
+
+export const exportChannelProfiles = (profiles: ChannelProfile[]): string =>
+  JSON.stringify(profiles, null, 2);
+
+export const loadLastProfileId = (): string | null => localStorage.getItem(LAST_PROFILE_KEY);
+
+export const saveLastProfileId = (id: string) => localStorage.setItem(LAST_PROFILE_KEY, id);
@@ -0,0 +1,242 @@
+import { Issue, IssueSeverity, IssueType } from '../types';
+import { SubjectRuleSet } from './subjects';
+
+// --- Check Registry ---
+// Every check the prompt can ask for. Uploads pick a subset (directly or via a named preset)
+// and only those checks are sent to the model, numbered in registry order.
+
+// Where in the video a check applies: every segment, or only the first/last one
+export type CheckScope = 'all' | 'first' | 'last';
+
+export interface CheckPromptContext {
+  hasGlossary: boolean;
+  hasCaptions: boolean;
+  hasAudioMetrics: boolean; // Loudness, silences and clipping were measured locally
+  hasSafeZone: boolean; // The target platform overlays its UI on the video
+  ruleSet: SubjectRuleSet;
+}
+
+export interface CheckDefinition {
+  id: string;
+  label: string;
+  description: string;
+  issueType: IssueType;
+  defaultSeverity: IssueSeverity;
+  scope: CheckScope;
+  prompt: (context: CheckPromptContext) => string;
+  skipPrompt?: string; // Sent for out-of-scope segments so the model does not improvise
+  requiresCaptions?: boolean; // Only sent when a caption file is attached
+  requiresSafeZone?: boolean; // Only sent when the target platform defines safe-zone margins
+}
+
+export interface CheckPreset {
+  id: string;
+  name: string;
+  checkIds: string[];
+  builtIn?: boolean;
+}
+
+export const CHECK_REGISTRY: CheckDefinition[] = [
+  {
+    id: 'spelling',
+    label: 'Spelling',
+    description: 'Typos in Hindi/English text overlays',
+    issueType: 'spelling',
+    defaultSeverity: 'minor',
+    scope: 'all',
+    prompt: ({ hasGlossary }) => `Identify spelling errors in Hindi/English text overlays within this timeframe${hasGlossary ? ", checking technical terms against the REFERENCE VOCABULARY" : ""}.`
+  },
+  {
+    id: 'formulas',
+    label: 'Factual Accuracy',
+    description: 'Formulas, equations, derivations and units for the selected subject',
+    issueType: 'factual',
+    defaultSeverity: 'critical',
+    scope: 'all',
+    prompt: ({ ruleSet }) => `Check ${ruleSet.label} content for accuracy within this timeframe. Verify that: ${ruleSet.instructions.join("; ")}.`
+  },
+  {
+    id: 'audio',
+    label: 'Audio Clarity',
+    description: 'Dips, noise and mumbled explanations',
+    issueType: 'clarity',
+    defaultSeverity: 'major',
+    scope: 'all',
+    prompt: ({ hasAudioMetrics }) => hasAudioMetrics
+      ? "Flag audio that is hard to follow (background noise, overlapping speech, mumbled or rushed explanations) within this timeframe. Volume dips, silences and clipping are measured separately; do not report them."
+      : "Flag audio that is hard to follow (volume dips, background noise, overlapping speech) within this timeframe."
+  },
+  {
+    id: 'visuals',
+    label: 'Visual Clarity',
+    description: 'Board out of frame, blur, unreadable text',
+    issueType: 'clarity',
+    defaultSeverity: 'minor',
+    scope: 'all',
+    prompt: () => "Flag unreadable visuals (board or slides out of frame, blur, text too small) within this timeframe."
+  },
+  {
+    id: 'hook',
+    label: 'Hook',
+    description: 'Opening 15 seconds',
+    issueType: 'marketing',
+    defaultSeverity: 'suggestion',
+    scope: 'first',
+    prompt: () => "Analyze marketing hook (first 15s).",
+    skipPrompt: "Skip marketing hook analysis for this segment."
+  },
+  {
+    id: 'cta',
+    label: 'Call to Action',
+    description: 'CTA placement and effectiveness',
+    issueType: 'marketing',
+    defaultSeverity: 'suggestion',
+    scope: 'last',
+    prompt: () => "Analyze CTA effectiveness at the end.",
+    skipPrompt: "Skip CTA analysis for this segment."
+  },
+  {
+    id: 'platform',
+    label: 'Platform Fit',
+    description: 'Framing, length and captions for the target platform',
+    issueType: 'platform',
+    defaultSeverity: 'minor',
+    scope: 'all',
+    prompt: () => "Flag anything that breaks the TARGET PLATFORM RULES (framing, pacing, missing captions) within this timeframe."
+  },
+  {
+    id: 'safe-zone',
+    label: 'Safe Zone',
+    description: 'On-screen text hidden behind the app UI',
+    issueType: 'platform',
+    defaultSeverity: 'major',
+    scope: 'all',
+    requiresSafeZone: true,
+    prompt: () => "Flag on-screen text (titles, formulas, lower thirds, burned-in captions) that reaches into the margins the TARGET PLATFORM RULES reserve for the app UI. Report each overlay once, at the first timestamp it appears, quote the text as evidence and set textRegion to its bounding box in percent of the frame."
+  },
+  {
+    id: 'caption-spelling',
+    label: 'Caption Spelling',
+    description: 'Typos in the attached caption file',
+    issueType: 'caption-spelling',
+    defaultSeverity: 'minor',
+    scope: 'all',
+    requiresCaptions: true,
+    prompt: ({ hasGlossary }) => `Proofread the CAPTION CUES for spelling errors${hasGlossary ? ", checking technical terms against the REFERENCE VOCABULARY" : ""}. Set cueIndex, quote the misspelt word as found and give the correction as shouldBe.`
+  },
+  {
+    id: 'caption-mismatch',
+    label: 'Caption vs Speech',
+    description: 'Captions that do not say what is spoken',
+    issueType: 'caption-mismatch',
+    defaultSeverity: 'major',
+    scope: 'all',
+    requiresCaptions: true,
+    prompt: () => "Compare each CAPTION CUE with what is actually spoken during it. Flag wrong, missing or extra words. Set cueIndex, quote the wrong fragment as found and the spoken words as shouldBe."
+  },
+  {
+    id: 'caption-sync',
+    label: 'Caption Timing',
+    description: 'Cues that appear too early or too late',
+    issueType: 'caption-sync',
+    defaultSeverity: 'minor',
+    scope: 'all',
+    requiresCaptions: true,
+    prompt: () => "Flag CAPTION CUES that are out of sync with the speech by more than half a second. Set cueIndex, and give shouldBe as the corrected timing \"HH:MM:SS.mmm --> HH:MM:SS.mmm\"."
+  }
+];
+
+// Everything: every issue type stays covered, as it was before checks were selectable
+export const DEFAULT_CHECK_IDS = CHECK_REGISTRY.map(c => c.id);
+
+export const BUILT_IN_PRESETS: CheckPreset[] = [
+  { id: 'full-lecture', name: 'Full lecture QA', checkIds: DEFAULT_CHECK_IDS, builtIn: true },
+  { id: 'quick-shorts', name: 'Quick Shorts pass', checkIds: ['spelling', 'hook', 'cta', 'platform', 'safe-zone'], builtIn: true },
+  { id: 'text-only', name: 'Text & formulas only', checkIds: ['spelling', 'formulas'], builtIn: true }
+];
+
+const PRESETS_KEY = 'pw_check_presets';
+const LAST_CHECKS_KEY = 'pw_last_check_ids';
+
+const knownIds = (ids: unknown): string[] =>
+  Array.isArray(ids) ? CHECK_REGISTRY.map(c => c.id).filter(id => ids.includes(id)) : [];
+
+export const loadCheckPresets = (): CheckPreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESETS_KEY) || '[]');
+    if (Array.isArray(stored)) {
+      const custom = stored
+        .filter(p => p && typeof p.id === 'string' && typeof p.name === 'string')
+        .map(p => ({ id: p.id, name: p.name, checkIds: knownIds(p.checkIds) }));
+      return [...BUILT_IN_PRESETS, ...custom];
+    }
+  } catch (e) {
+    console.error("Check preset parsing failed", e);
+  }
+  return BUILT_IN_PRESETS;
+};
+
+/**
+ * Saves a custom preset under `name`, replacing any custom preset with the same name.
+ */
+export const saveCheckPreset = (name: string, checkIds: string[]): CheckPreset => {
+  const custom = loadCheckPresets().filter(p => !p.builtIn && p.name !== name);
+  const preset: CheckPreset = { id: `custom-${Date.now()}`, name, checkIds: knownIds(checkIds) };
+  localStorage.setItem(PRESETS_KEY, JSON.stringify([...custom, preset]));
+  return preset;
+};
+
+export const deleteCheckPreset = (id: string) => {
+  const custom = loadCheckPresets().filter(p => !p.builtIn && p.id !== id);
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(custom));
+};
+
+export const loadLastCheckIds = (): string[] => {
+  try {
+    const ids = knownIds(JSON.parse(localStorage.getItem(LAST_CHECKS_KEY) || 'null'));
+    if (ids.length > 0) return ids;
+  } catch (e) {
+    console.error("Check selection parsing failed", e);
+  }
+  return DEFAULT_CHECK_IDS;
+};
+
+export const saveLastCheckIds = (ids: string[]) => localStorage.setItem(LAST_CHECKS_KEY, JSON.stringify(ids));
+
+export const getChecks = (ids: string[]): CheckDefinition[] =>
+  CHECK_REGISTRY.filter(check => ids.includes(check.id));
+
+/**
+ * Numbered CHECKS list for one segment. Each line states the issue type and default severity
+ * the findings should be reported with.
+ */
+export const buildChecksPrompt = (
+  checks: CheckDefinition[],
+  segmentIndex: number,
+  totalSegments: number,
+  context: CheckPromptContext
+): string => {
+  const lines = checks.map(check => {
+    if (check.requiresCaptions && !context.hasCaptions) return null;
+    if (check.requiresSafeZone && !context.hasSafeZone) return null;
+    const inScope = check.scope === 'all'
+      || (check.scope === 'first' && segmentIndex === 0)
+      || (check.scope === 'last' && segmentIndex === totalSegments - 1);
+    if (!inScope) return check.skipPrompt || null;
+    return `${check.prompt(context)} Report findings as type "${check.issueType}" with checkId "${check.id}", severity "${check.defaultSeverity}" unless clearly more or less serious.`;
+  }).filter((line): line is string => !!line);
+
+  lines.push("Call the function 'submit_video_analysis' with your findings for THIS segment. Report ONLY issues from the checks above.");
+  return lines.map((line, i) => `${i + 1}. ${line}`).join("\n      ");
+};
+
+/**
+ * Selected check an issue belongs to, or null when none covers it. Trusts the checkId the model
+ * tagged the issue with; untagged or mistagged issues fall back to the first selected check of
+ * their type.
+ */
+export const resolveCheckId = (issue: Pick<Issue, 'type' | 'checkId'>, checks: CheckDefinition[]): string | null => {
+  const tagged = CHECK_REGISTRY.find(check => check.id === issue.checkId && check.issueType === issue.type);
+  if (tagged) return checks.some(check => check.id === tagged.id) ? tagged.id : null;
+  return checks.find(check => check.issueType === issue.type)?.id ?? null;
+};
@@ -0,0 +1,69 @@
+import { AnalysisResult, CaptionTrack } from '../types';
+import { ProviderId } from './analysisProvider';
+import { Subject } from './subjects';
+import { STORES, idbDelete, idbGetAll, idbPut } from './localDb';
+
+// --- Analysis Checkpoints ---
+// Each completed segment is persisted as soon as it is parsed, so a crash or refresh
+// mid-analysis only costs the segments that were still in flight.
+
+export interface AnalysisCheckpoint {
+  id: string; // File signature (see getFileSignature)
+  fileName: string;
+  fileSize: number;
+  videoTitle: string;
+  platform: string; // PlatformId; checkpoints from older versions hold a label such as "YouTube Shorts"
+  channelUrl: string;
+  channelProfileId?: string;
+  subject?: Subject;
+  checkIds?: string[];
+  captions?: CaptionTrack;
+  providerId: ProviderId;
+  remoteFileName: string;
+  fileUri: string;
+  duration: string;
+  overlapSeconds: number; // Segment windows must match the original run to be reusable
+  totalSegments: number;
+  segments: Record<number, AnalysisResult>;
+  updatedAt: number;
+}
+
+/**
+ * Identifies a local file without reading its contents.
+ */
+export const getFileSignature = (file: File): string =>
+  `${file.name}:${file.size}:${file.lastModified}`;
+
+export const countCompletedSegments = (checkpoint: AnalysisCheckpoint): number =>
+  Object.keys(checkpoint.segments).length;
+
+export const saveCheckpoint = async (checkpoint: AnalysisCheckpoint): Promise<void> => {
+  try {
+    await idbPut(STORES.checkpoints, { ...checkpoint, updatedAt: Date.now() });
+  } catch (error) {
+    // Checkpointing is an optimisation; never fail the analysis because of it
+    console.warn("Failed to save analysis checkpoint:", error);
+  }
+};
+
+/**
+ * Most recently updated unfinished analysis, if any.
+ */
+export const loadLatestCheckpoint = async (): Promise<AnalysisCheckpoint | null> => {
+  try {
+    const all = await idbGetAll<AnalysisCheckpoint>(STORES.checkpoints);
+    if (all.length === 0) return null;
+    return all.sort((a, b) => b.updatedAt - a.updatedAt)[0];
+  } catch (error) {
+    console.warn("Failed to load analysis checkpoints:", error);
+    return null;
+  }
+};
+
+export const deleteCheckpoint = async (id: string): Promise<void> => {
+  try {
+    await idbDelete(STORES.checkpoints, id);
+  } catch (error) {
+    console.warn("Failed to delete analysis checkpoint:", error);
+  }
+};
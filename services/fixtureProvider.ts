@@ -0,0 +1,265 @@
+import { AnalysisProvider } from './analysisProvider';
+import { sleep } from './retry';
+
+// --- Recorded Fixtures ---
+// Captured `submit_video_analysis` function-call payloads from a 50-minute lecture run.
+// Replayed segment by segment so QA can demo and regression-test the dashboard offline.
+
+export const FIXTURE_VIDEO_DURATION = "3000s";
+
+export const RECORDED_SEGMENT_PAYLOADS: Record<string, any>[] = [
+  {
+    score: 86,
+    issues: [
+      {
+        timestamp: "00:00:12",
+        type: "marketing",
+        severity: "suggestion",
+        description: "Hook is too generic",
+        impact: "Low initial retention predicted",
+        confidence: 0.55,
+        evidence: "\"Hello everyone, welcome back to the channel, today we will study Newton's laws.\""
+      },
+      {
+        timestamp: "00:01:23",
+        type: "spelling",
+        severity: "critical",
+        description: "Main title overlay missing apostrophe",
+        found: "Newtons Third Law",
+        shouldBe: "Newton's Third Law",
+        impact: "Factual incorrectness in core concept title",
+        confidence: 0.96,
+        evidence: "Title overlay: \"Newtons Third Law\""
+      },
+      {
+        timestamp: "00:08:12",
+        endTimestamp: "00:08:41",
+        type: "clarity",
+        severity: "major",
+        description: "Audio dips significantly during key explanation",
+        impact: "Difficult to hear 'Conservation of Momentum'",
+        confidence: 0.62,
+        evidence: "\"...so this is called the conservation of momentum...\" (spoken facing the board)"
+      }
+    ],
+    marketing: {
+      overallScore: 74,
+      hookScore: 6,
+      hookFeedback: "Generic opening. Suggest: Start with a question like 'Why do astronauts float?'",
+      retentionCurve: [
+        { time: "00:00", value: 100 },
+        { time: "05:00", value: 84 },
+        { time: "10:00", value: 78 },
+        { time: "15:00", value: 71 }
+      ]
+    },
+    platformFit: {
+      aspectRatio: true,
+      duration: true,
+      thumbnail: "medium",
+      captions: true
+    }
+  },
+  {
+    score: 82,
+    issues: [
+      {
+        timestamp: "00:24:05",
+        type: "factual",
+        severity: "critical",
+        description: "Sign error in impulse formula",
+        found: "J = -F × Δt",
+        shouldBe: "J = F × Δt",
+        impact: "Students will carry the wrong sign into numericals",
+        confidence: 0.9,
+        evidence: "Board: \"J = -F × Δt\""
+      },
+      {
+        timestamp: "00:31:40",
+        type: "spelling",
+        severity: "minor",
+        description: "Typo in board heading",
+        found: "Momentom",
+        shouldBe: "Momentum",
+        impact: "Looks careless on a core concept slide",
+        confidence: 0.88,
+        evidence: "Board heading: \"Momentom\""
+      },
+      {
+        timestamp: "00:36:02",
+        type: "platform",
+        severity: "major",
+        description: "Formula lower third sits in the bottom UI band",
+        impact: "The in-app caption and buttons cover the formula students need to copy",
+        confidence: 0.8,
+        evidence: "Lower third: \"p = mv\"",
+        checkId: "safe-zone",
+        textRegion: { x: 8, y: 84, width: 60, height: 9 }
+      }
+    ],
+    marketing: {
+      overallScore: 70,
+      hookScore: 0,
+      retentionCurve: [
+        { time: "20:00", value: 66 },
+        { time: "30:00", value: 61 }
+      ]
+    },
+    platformFit: {
+      aspectRatio: true,
+      duration: true,
+      thumbnail: "medium",
+      captions: true
+    }
+  },
+  {
+    score: 88,
+    issues: [
+      {
+        timestamp: "00:44:10",
+        endTimestamp: "00:45:30",
+        type: "clarity",
+        severity: "minor",
+        description: "Whiteboard partially out of frame",
+        impact: "Last line of the derivation is cut off",
+        confidence: 0.7
+      },
+      {
+        timestamp: "00:49:20",
+        type: "platform",
+        severity: "minor",
+        description: "CTA is late",
+        impact: "Viewers may drop off before subscribing",
+        confidence: 0.4,
+        evidence: "\"Don't forget to subscribe and hit the bell icon!\""
+      }
+    ],
+    marketing: {
+      overallScore: 72,
+      hookScore: 0,
+      ctaScore: 7,
+      ctaFeedback: "Clear ask at 49:20, but most viewers will have left. Move it before the final numerical.",
+      retentionCurve: [
+        { time: "40:00", value: 52 },
+        { time: "50:00", value: 45 }
+      ]
+    },
+    platformFit: {
+      aspectRatio: true,
+      duration: true,
+      thumbnail: "medium",
+      captions: true
+    }
+  }
+];
+
+// Token counts reported alongside each recorded payload (the whole 50-minute file is sent per segment)
+const RECORDED_SEGMENT_USAGE = { promptTokens: 901500, outputTokens: 3800, totalTokens: 905300 };
+
+// Transcript lines returned for each segment's window (abridged; the recording has more)
+export const RECORDED_TRANSCRIPTS: Record<string, any>[][] = [
+  [
+    { start: "00:00:02", end: "00:00:11", text: "Hello everyone, welcome back to the channel, today we will study Newton's laws.", language: "en" },
+    { start: "00:00:12", end: "00:00:19", text: "Toh bachcho, aaj ka topic bahut important hai JEE ke liye.", language: "mixed" },
+    { start: "00:01:20", end: "00:01:31", text: "Newton's third law kehta hai ki har action ka equal aur opposite reaction hota hai.", language: "mixed" },
+    { start: "00:05:02", end: "00:05:12", text: "बल का मात्रक न्यूटन है, और F = m × a.", language: "hi" },
+    { start: "00:08:10", end: "00:08:24", text: "So this is called the conservation of momentum.", language: "en" },
+    { start: "00:08:25", end: "00:08:41", text: "Jab tak external force zero hai, total momentum constant rahega.", language: "mixed" },
+    { start: "00:15:40", end: "00:15:52", text: "Ab ek numerical dekhte hain, rocket propulsion ka.", language: "mixed" }
+  ],
+  [
+    { start: "00:20:03", end: "00:20:14", text: "Chaliye ab impulse ki baat karte hain.", language: "mixed" },
+    { start: "00:24:01", end: "00:24:12", text: "Impulse J equals minus F into delta t, likh lijiye.", language: "mixed" },
+    { start: "00:31:35", end: "00:31:47", text: "Is heading ko dhyan se padhiye, momentum aur impulse ka relation.", language: "mixed" },
+    { start: "00:36:10", end: "00:36:21", text: "Change in momentum is equal to the impulse applied.", language: "en" }
+  ],
+  [
+    { start: "00:40:02", end: "00:40:15", text: "Last part mein hum derivation complete karenge.", language: "mixed" },
+    { start: "00:44:08", end: "00:44:20", text: "Yahan se neeche dekhiye, final expression aata hai.", language: "mixed" },
+    { start: "00:49:18", end: "00:49:28", text: "Don't forget to subscribe and hit the bell icon!", language: "en" }
+  ]
+];
+
+// One 20-minute window of video plus the transcript prompt
+const RECORDED_TRANSCRIPT_USAGE = { promptTokens: 360600, outputTokens: 2900, totalTokens: 363500 };
+
+// Second-pass verdicts, keyed by issue description. Unlisted issues are confirmed.
+export const RECORDED_VERIFICATIONS: Record<string, Record<string, any>> = {
+  "Main title overlay missing apostrophe": {
+    verdict: "confirmed",
+    confidence: 0.97,
+    reasoning: "The overlay at 00:01:23 reads \"Newtons Third Law\" with no apostrophe."
+  },
+  "Audio dips significantly during key explanation": {
+    verdict: "refuted",
+    confidence: 0.8,
+    reasoning: "Level drops briefly when the teacher turns to the board, but 'Conservation of Momentum' remains clearly audible."
+  },
+  "Sign error in impulse formula": {
+    verdict: "confirmed",
+    confidence: 0.93,
+    reasoning: "Board shows J = -F × Δt; impulse has the same sign as the applied force."
+  }
+};
+
+const DEFAULT_VERIFICATION = { verdict: "confirmed", confidence: 0.75, reasoning: "Issue is visible in the clip." };
+
+// A 30-second clip plus the verification prompt
+const RECORDED_VERIFICATION_USAGE = { promptTokens: 9600, outputTokens: 120, totalTokens: 9720 };
+
+const FIXTURE_LATENCY_MS = 400;
+
+/**
+ * Offline provider that replays recorded payloads. Deterministic: segment N always
+ * receives payload N (wrapping around), regardless of the uploaded file.
+ */
+export const createFixtureProvider = (
+  payloads: Record<string, any>[] = RECORDED_SEGMENT_PAYLOADS,
+  duration: string = FIXTURE_VIDEO_DURATION
+): AnalysisProvider => ({
+  id: 'fixture',
+  label: 'Offline Fixtures',
+  model: 'fixture',
+
+  upload: async (file, signal) => {
+    await sleep(FIXTURE_LATENCY_MS, signal);
+    return { name: `fixtures/${file.name}`, uri: `fixture://${file.name}` };
+  },
+
+  poll: async (name, signal) => {
+    await sleep(FIXTURE_LATENCY_MS, signal);
+    return { state: 'ACTIVE', uri: name.replace('fixtures/', 'fixture://'), duration };
+  },
+
+  analyzeSegment: async ({ segmentIndex, signal }) => {
+    await sleep(FIXTURE_LATENCY_MS, signal);
+    const args = payloads[segmentIndex % payloads.length];
+    // Deep copy so downstream corrections never mutate the recording
+    return {
+      functionCall: { name: "submit_video_analysis", args: JSON.parse(JSON.stringify(args)) },
+      usage: { ...RECORDED_SEGMENT_USAGE }
+    };
+  },
+
+  verifyIssue: async ({ issue, signal }) => {
+    await sleep(FIXTURE_LATENCY_MS, signal);
+    const args = RECORDED_VERIFICATIONS[issue.description] || DEFAULT_VERIFICATION;
+    return {
+      functionCall: { name: "submit_issue_verification", args: { ...args } },
+      usage: { ...RECORDED_VERIFICATION_USAGE }
+    };
+  },
+
+  transcribeSegment: async ({ segmentIndex, signal }) => {
+    await sleep(FIXTURE_LATENCY_MS, signal);
+    const lines = RECORDED_TRANSCRIPTS[segmentIndex % RECORDED_TRANSCRIPTS.length];
+    return {
+      functionCall: { name: "submit_transcript", args: { lines: JSON.parse(JSON.stringify(lines)) } },
+      usage: { ...RECORDED_TRANSCRIPT_USAGE }
+    };
+  },
+
+  deleteFile: async () => {
+    // Nothing is stored remotely
+  }
+});
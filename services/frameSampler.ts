@@ -0,0 +1,231 @@
+import { AnalysisResult, Issue, IssueType, SceneChange } from '../types';
+import { throwIfAborted } from './retry';
+
+// --- Local Frame Sampling ---
+// Seeks a hidden <video> over the selected file to find hard cuts (frame differencing on a
+// tiny greyscale copy of each frame) and to grab the frame behind every finding. Runs after
+// the model has answered; nothing is uploaded.
+
+const SIGNATURE_WIDTH = 32;
+const SIGNATURE_HEIGHT = 18;
+const MAX_SCENE_SAMPLES = 1200; // Coarse pass budget; long lectures get a wider step
+const MIN_SCENE_STEP_SECONDS = 1;
+const CUT_THRESHOLD = 0.15; // Mean absolute luma difference (0..1) that counts as a cut
+const CUT_PRECISION_SECONDS = 0.25;
+const SNAP_TOLERANCE_SECONDS = 2;
+const ISSUE_THUMBNAIL_WIDTH = 320;
+const SCENE_THUMBNAIL_WIDTH = 160;
+const MAX_SCENE_THUMBNAILS = 200;
+const JPEG_QUALITY = 0.7;
+const LOAD_TIMEOUT_MS = 15000;
+const SEEK_TIMEOUT_MS = 5000;
+
+// Findings about what is on screen; the model often places these a second or two off the slide change
+const SNAPPABLE_TYPES: IssueType[] = ['spelling', 'factual', 'platform'];
+
+export interface FrameSamplingOptions {
+  signal?: AbortSignal;
+  onStatusUpdate?: (status: string) => void;
+}
+
+const parseTimestamp = (timeStr: string): number => {
+  const parts = timeStr.split(':').map(p => parseInt(p, 10) || 0);
+  if (parts.length === 3) return parts[0] * 3600 + parts[1] * 60 + parts[2];
+  if (parts.length === 2) return parts[0] * 60 + parts[1];
+  return 0;
+};
+
+const formatTimestamp = (seconds: number): string => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return h > 0 ? `${pad(h)}:${pad(m)}:${pad(s)}` : `${pad(m)}:${pad(s)}`;
+};
+
+const releaseVideo = (video: HTMLVideoElement) => {
+  video.onloadeddata = null;
+  video.onerror = null;
+  video.removeAttribute('src');
+  video.load();
+};
+
+// The caller owns (and revokes) the object URL; a failed load releases the element here
+const openVideo = (url: string): Promise<HTMLVideoElement> => new Promise((resolve, reject) => {
+  const video = document.createElement('video');
+  const fail = (message: string) => {
+    clearTimeout(timer);
+    releaseVideo(video);
+    reject(new Error(message));
+  };
+  const timer = setTimeout(() => fail("Timed out loading the video for frame sampling"), LOAD_TIMEOUT_MS);
+  video.preload = 'auto';
+  video.muted = true;
+  video.playsInline = true;
+  video.onloadeddata = () => { clearTimeout(timer); resolve(video); };
+  video.onerror = () => fail("This browser cannot decode the video's frames");
+  video.src = url;
+});
+
+const seek = (video: HTMLVideoElement, time: number): Promise<void> => new Promise((resolve, reject) => {
+  const target = Math.max(0, Math.min(time, video.duration - 0.05));
+  const done = () => { clearTimeout(timer); video.removeEventListener('seeked', done); resolve(); };
+  const timer = setTimeout(() => {
+    video.removeEventListener('seeked', done);
+    reject(new Error(`Timed out seeking to ${formatTimestamp(target)}`));
+  }, SEEK_TIMEOUT_MS);
+  video.addEventListener('seeked', done);
+  video.currentTime = target;
+});
+
+/**
+ * Greyscale thumbnail of the current frame, compared pixel by pixel to spot cuts.
+ */
+const readSignature = (video: HTMLVideoElement, context: CanvasRenderingContext2D): Float32Array => {
+  context.drawImage(video, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const { data } = context.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const luma = new Float32Array(SIGNATURE_WIDTH * SIGNATURE_HEIGHT);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+  }
+  return luma;
+};
+
+const difference = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / a.length;
+};
+
+const captureFrame = (video: HTMLVideoElement, width: number): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = Math.round(width * (video.videoHeight / (video.videoWidth || 1)));
+  canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+};
+
+/**
+ * Coarse pass over the whole video, then bisects each large jump down to CUT_PRECISION_SECONDS.
+ * Jumps that spread out when bisected (pans, fades) are gradual changes, not cuts, and are dropped.
+ */
+const detectSceneChanges = async (
+  video: HTMLVideoElement,
+  context: CanvasRenderingContext2D,
+  options: FrameSamplingOptions
+): Promise<number[]> => {
+  const duration = video.duration;
+  const step = Math.max(MIN_SCENE_STEP_SECONDS, duration / MAX_SCENE_SAMPLES);
+  const signatureAt = async (time: number) => {
+    await seek(video, time);
+    return readSignature(video, context);
+  };
+
+  const cuts: number[] = [];
+  let previousTime = 0;
+  let previous = await signatureAt(0);
+  let sampleIndex = 0;
+  const sampleCount = Math.ceil(duration / step);
+
+  for (let time = step; time < duration; time += step) {
+    throwIfAborted(options.signal);
+    if (++sampleIndex % 100 === 0 && options.onStatusUpdate) {
+      options.onStatusUpdate(`Detecting scene changes (${Math.round(sampleIndex / sampleCount * 100)}%)...`);
+    }
+    const current = await signatureAt(time);
+    if (difference(previous, current) >= CUT_THRESHOLD) {
+      let low = previousTime, high = time;
+      let lowSig = previous, highSig = current;
+      while (high - low > CUT_PRECISION_SECONDS) {
+        const mid = (low + high) / 2;
+        const midSig = await signatureAt(mid);
+        if (difference(lowSig, midSig) >= difference(midSig, highSig)) {
+          high = mid; highSig = midSig;
+        } else {
+          low = mid; lowSig = midSig;
+        }
+      }
+      if (difference(lowSig, highSig) >= CUT_THRESHOLD) cuts.push(high);
+    }
+    previousTime = time;
+    previous = current;
+  }
+  return cuts;
+};
+
+/**
+ * Moves an on-screen finding to the nearest cut within SNAP_TOLERANCE_SECONDS, landing on the
+ * first whole second that shows the new shot. Ranges keep their end.
+ */
+const snapIssue = (issue: Issue, cuts: number[]): Issue => {
+  if (!SNAPPABLE_TYPES.includes(issue.type) || cuts.length === 0) return issue;
+  const start = parseTimestamp(issue.timestamp);
+  const nearest = cuts.reduce((best, cut) => Math.abs(cut - start) < Math.abs(best - start) ? cut : best);
+  const snapped = Math.ceil(nearest);
+  if (Math.abs(nearest - start) > SNAP_TOLERANCE_SECONDS || snapped === start) return issue;
+  if (issue.endTimestamp && snapped >= parseTimestamp(issue.endTimestamp)) return issue;
+  return { ...issue, timestamp: formatTimestamp(snapped) };
+};
+
+/**
+ * Snaps on-screen findings to scene cuts and attaches the flagged frame to every issue (plus a
+ * preview of each cut). Throws if the browser cannot decode the file; the caller keeps the
+ * unsampled result in that case.
+ */
+export const attachFrameEvidence = async (
+  file: File,
+  result: AnalysisResult,
+  options: FrameSamplingOptions = {}
+): Promise<AnalysisResult> => {
+  const url = URL.createObjectURL(file);
+  let video: HTMLVideoElement | null = null;
+  try {
+    video = await openVideo(url);
+    const canvas = document.createElement('canvas');
+    canvas.width = SIGNATURE_WIDTH;
+    canvas.height = SIGNATURE_HEIGHT;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) throw new Error("Canvas is not available for frame sampling");
+
+    if (options.onStatusUpdate) options.onStatusUpdate("Detecting scene changes...");
+    const cuts = await detectSceneChanges(video, context, options);
+
+    const issues = result.issues.map(issue => snapIssue(issue, cuts));
+    const snappedCount = issues.filter((issue, i) => issue !== result.issues[i]).length;
+
+    // One capture per distinct timestamp
+    if (options.onStatusUpdate) options.onStatusUpdate("Capturing evidence frames...");
+    const frames = new Map<number, string>();
+    for (const time of new Set(issues.map(issue => parseTimestamp(issue.timestamp)))) {
+      throwIfAborted(options.signal);
+      await seek(video, time);
+      frames.set(time, captureFrame(video, ISSUE_THUMBNAIL_WIDTH));
+    }
+
+    const sceneChanges: SceneChange[] = [];
+    for (const [index, time] of cuts.entries()) {
+      throwIfAborted(options.signal);
+      if (index >= MAX_SCENE_THUMBNAILS) {
+        sceneChanges.push({ time });
+        continue;
+      }
+      await seek(video, time);
+      sceneChanges.push({ time, thumbnail: captureFrame(video, SCENE_THUMBNAIL_WIDTH) });
+    }
+
+    const notices = snappedCount > 0
+      ? [`Moved ${snappedCount} on-screen finding${snappedCount === 1 ? '' : 's'} to the nearest scene cut (within ${SNAP_TOLERANCE_SECONDS}s).`]
+      : [];
+    return {
+      ...result,
+      issues: issues
+        .map(issue => ({ ...issue, thumbnail: frames.get(parseTimestamp(issue.timestamp)) }))
+        .sort((a, b) => parseTimestamp(a.timestamp) - parseTimestamp(b.timestamp)),
+      sceneChanges,
+      notices: [...(result.notices || []), ...notices]
+    };
+  } finally {
+    if (video) releaseVideo(video);
+    URL.revokeObjectURL(url);
+  }
+};
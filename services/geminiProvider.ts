@@ -0,0 +1,273 @@
+import { GoogleGenAI, Type, HarmBlockThreshold, HarmCategory } from "@google/genai";
+import { AnalysisProvider, ClipRequest, RemoteFileState, SegmentResponse } from './analysisProvider';
+
+// --- Tool Definition ---
+export const analysisTool = {
+  functionDeclarations: [
+    {
+      name: "submit_video_analysis",
+      description: "Submit the findings of the video proofreading analysis, including issues, marketing scores, and platform fit.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          score: { type: Type.NUMBER, description: "Overall quality score out of 100" },
+          issues: {
+            type: Type.ARRAY,
+            description: "List of time-stamped issues found in the video",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                timestamp: { type: Type.STRING, description: "HH:MM:SS or MM:SS format relative to video start (00:00:00)" },
+                endTimestamp: { type: Type.STRING, description: "Only for issues that last a while (audio dips, blurry board): where the problem ends, same format. Omit for single moments." },
+                type: { type: Type.STRING, enum: ["spelling", "factual", "clarity", "marketing", "platform", "caption-spelling", "caption-mismatch", "caption-sync"] },
+                checkId: { type: Type.STRING, description: "Id of the check that produced this issue, as given in the CHECKS list" },
+                severity: { type: Type.STRING, enum: ["critical", "major", "minor", "suggestion"] },
+                description: { type: Type.STRING, description: "Short description of the issue" },
+                found: { type: Type.STRING, description: "What was found (e.g., the typo)" },
+                shouldBe: { type: Type.STRING, description: "The correction" },
+                impact: { type: Type.STRING, description: "Why this matters" },
+                confidence: { type: Type.NUMBER, description: "How certain you are that this is a real issue, 0 to 1" },
+                evidence: { type: Type.STRING, description: "Verbatim evidence: the exact overlay text read, or the spoken sentence transcribed" },
+                cueIndex: { type: Type.INTEGER, description: "Caption issues only: the # of the caption cue concerned" },
+                textRegion: {
+                  type: Type.OBJECT,
+                  description: "Safe-zone issues only: bounding box of the on-screen text, in percent of the frame from the top-left corner",
+                  properties: {
+                    x: { type: Type.NUMBER },
+                    y: { type: Type.NUMBER },
+                    width: { type: Type.NUMBER },
+                    height: { type: Type.NUMBER }
+                  },
+                  required: ["x", "y", "width", "height"]
+                }
+              },
+              required: ["timestamp", "type", "severity", "description"]
+            }
+          },
+          marketing: {
+            type: Type.OBJECT,
+            properties: {
+              overallScore: { type: Type.NUMBER },
+              hookScore: { type: Type.NUMBER },
+              hookFeedback: { type: Type.STRING },
+              ctaScore: { type: Type.NUMBER },
+              ctaFeedback: { type: Type.STRING },
+              retentionCurve: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    time: { type: Type.STRING, description: "HH:MM:SS or MM:SS format" },
+                    value: { type: Type.NUMBER },
+                    label: { type: Type.STRING }
+                  }
+                }
+              }
+            },
+            required: ["overallScore", "hookScore"]
+          },
+          platformFit: {
+            type: Type.OBJECT,
+            properties: {
+              aspectRatio: { type: Type.BOOLEAN },
+              duration: { type: Type.BOOLEAN },
+              thumbnail: { type: Type.STRING, enum: ["low", "medium", "high"] },
+              captions: { type: Type.BOOLEAN }
+            },
+            required: ["aspectRatio", "duration", "thumbnail", "captions"]
+          }
+        },
+        required: ["score", "issues", "marketing", "platformFit"]
+      }
+    }
+  ]
+};
+
+export const verificationTool = {
+  functionDeclarations: [
+    {
+      name: "submit_issue_verification",
+      description: "Submit whether a previously reported issue is real, after re-checking the clip around it.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          verdict: { type: Type.STRING, enum: ["confirmed", "refuted", "uncertain"] },
+          confidence: { type: Type.NUMBER, description: "Confidence in the verdict, 0 to 1" },
+          reasoning: { type: Type.STRING, description: "One or two sentences explaining the verdict" }
+        },
+        required: ["verdict", "confidence", "reasoning"]
+      }
+    }
+  ]
+};
+
+export const transcriptTool = {
+  functionDeclarations: [
+    {
+      name: "submit_transcript",
+      description: "Submit a timestamped transcript of the speech in the clip.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          lines: {
+            type: Type.ARRAY,
+            description: "One entry per sentence or short phrase, in order",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                start: { type: Type.STRING, description: "HH:MM:SS relative to video start (00:00:00)" },
+                end: { type: Type.STRING, description: "HH:MM:SS relative to video start" },
+                text: { type: Type.STRING, description: "Exactly what was said, in the original script (Devanagari for Hindi, Latin for English, mixed as spoken)" },
+                language: { type: Type.STRING, enum: ["hi", "en", "mixed"] }
+              },
+              required: ["start", "text"]
+            }
+          }
+        },
+        required: ["lines"]
+      }
+    }
+  ]
+};
+
+const safetySettings = [
+  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+];
+
+// Normalises a generateContent response (function call, text and token usage)
+const toSegmentResponse = (response: any): SegmentResponse => {
+  const candidates = response.candidates;
+  if (!candidates || candidates.length === 0) {
+    throw new Error("No response from AI");
+  }
+
+  const parts = candidates[0].content?.parts;
+  const functionCallPart = parts?.find((part: any) => part.functionCall);
+  const usage = response.usageMetadata;
+  const result: SegmentResponse = {
+    text: parts?.map((part: any) => part.text || '').join('') || undefined,
+    usage: usage ? {
+      promptTokens: usage.promptTokenCount || 0,
+      outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+      totalTokens: usage.totalTokenCount || 0
+    } : undefined
+  };
+  if (functionCallPart?.functionCall) {
+    result.functionCall = {
+      name: functionCallPart.functionCall.name,
+      args: functionCallPart.functionCall.args || {}
+    };
+  }
+  return result;
+};
+
+/**
+ * Gemini implementation of the AnalysisProvider.
+ * Uses the File API for uploads (up to 2GB) and function calling for structured output.
+ */
+export const createGeminiProvider = (apiKey: string, model: string): AnalysisProvider => {
+  if (!apiKey) throw new Error("API Key missing");
+
+  const ai = new GoogleGenAI({ apiKey });
+  // Cast to any to avoid type errors if the SDK definition is incomplete in this version
+  const aiClient = ai as any;
+
+  // Only the requested clip is sent, which keeps verification and transcription cheap
+  const generateForClip = async ({ fileUri, mimeType, prompt, startSeconds, endSeconds, signal }: ClipRequest, tool: object) => {
+    const response = await ai.models.generateContent({
+      model,
+      contents: [
+        {
+          role: "user",
+          parts: [
+            { text: prompt },
+            {
+              fileData: { mimeType, fileUri },
+              videoMetadata: { startOffset: `${Math.floor(startSeconds)}s`, endOffset: `${Math.ceil(endSeconds)}s` }
+            }
+          ]
+        }
+      ],
+      config: {
+        tools: [tool],
+        safetySettings,
+        abortSignal: signal,
+      },
+    });
+
+    return toSegmentResponse(response);
+  };
+
+  return {
+    id: 'gemini',
+    label: `Gemini (${model})`,
+    model,
+
+    upload: async (file, signal) => {
+      const mimeType = file.type || "video/mp4";
+      const uploadResponse = await aiClient.files.upload({
+        file: file,
+        config: { mimeType: mimeType, abortSignal: signal }
+      });
+
+      // Handle different response structures from the SDK (wrapped in .file or direct)
+      const uploadedFile = uploadResponse.file ?? uploadResponse;
+
+      if (!uploadedFile || !uploadedFile.uri) {
+        console.error("Unexpected Upload Response:", uploadResponse);
+        throw new Error("Upload failed: Response missing file URI. The API might have changed.");
+      }
+
+      return { name: uploadedFile.name, uri: uploadedFile.uri, expiresAt: uploadedFile.expirationTime };
+    },
+
+    poll: async (name, signal) => {
+      const fileStatusResponse = await aiClient.files.get({ name, config: { abortSignal: signal } });
+      const fileStatus = fileStatusResponse.file ?? fileStatusResponse;
+      return {
+        state: fileStatus.state as RemoteFileState,
+        uri: fileStatus.uri,
+        // Capture duration from metadata if available
+        duration: fileStatus.videoMetadata?.videoDuration || ""
+      };
+    },
+
+    analyzeSegment: async ({ fileUri, mimeType, prompt, signal }) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: [
+          {
+            role: "user",
+            parts: [
+              { text: prompt },
+              {
+                fileData: {
+                  mimeType,
+                  fileUri: fileUri
+                }
+              }
+            ]
+          }
+        ],
+        config: {
+          tools: [analysisTool],
+          safetySettings,
+          abortSignal: signal,
+        },
+      });
+
+      return toSegmentResponse(response);
+    },
+
+    verifyIssue: (request) => generateForClip(request, verificationTool),
+
+    transcribeSegment: (request) => generateForClip(request, transcriptTool),
+
+    deleteFile: async (name) => {
+      await aiClient.files.delete({ name });
+    }
+  };
+};
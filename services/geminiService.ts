@@ -1,150 +1,154 @@
-import { GoogleGenAI, Type, HarmBlockThreshold, HarmCategory } from "@google/genai";
-import { CHANNEL_CONTEXT } from '../constants';
-import { AnalysisResult, Issue, MarketingData } from '../types';
+import { DEFAULT_CHANNEL_PROFILE } from '../constants';
+import { AnalysisResult, CaptionTrack, ChannelProfile, FailedSegment, Issue, IssueSeverity, MarketingData, MediaInfo, PlatformId, TokenUsage, TranscriptLine, UsageSummary } from '../types';
+import { AnalysisProvider, SegmentResponse } from './analysisProvider';
+import { KnowledgeSnippet } from './knowledgeStore';
+import { CheckDefinition, DEFAULT_CHECK_IDS, buildChecksPrompt, getChecks, resolveCheckId } from './checkRegistry';
+import { formatCuesForPrompt, getCuesInWindow } from './captions';
+import { applyMeasuredFit, checkSafeZoneIssues } from './platformFit';
+import { AudioAnalysis } from './audioAnalysis';
+import { PlatformProfile, buildPlatformPrompt, getPlatformProfile } from './platformProfiles';
+import { GlossaryTerm, MAX_PROMPT_TERMS, buildAllowlist, isAllowlisted } from './glossaries';
+import { SUBJECT_RULE_SETS, Subject, SubjectRuleSet, getSubjectLabel } from './subjects';
+import { isAbortError, sleep, throwIfAborted, withRetry } from './retry';
+import { normalizeText, textSimilarity } from './textSimilarity';
+import { forgetUpload, hashFile, lookupUpload, rememberUpload } from './uploadCache';
+import { ValidatedIssue, validateAnalysisPayload, validateTranscriptPayload, validateVerificationPayload } from './analysisValidator';
+import { DEFAULT_OVERLAP_SECONDS } from './analysisSettings';
+import { DEFAULT_PRICE_TABLE, ModelPrice, addUsage, emptyUsage, getModelPrice, priceUsage } from './pricing';
 
 // --- Configuration ---
-// Using gemini-3-pro-preview as it has the best context window for large video files (2GB+)
-const MODEL_NAME = "gemini-3-pro-preview"; 
 const CHUNK_SIZE_MINUTES = 20; // Break analysis into 20-minute segments to prevent "sleeping"
-
-// --- 1. Tool Definition ---
-const analysisTool = {
-  functionDeclarations: [
-    {
-      name: "submit_video_analysis",
-      description: "Submit the findings of the video proofreading analysis, including issues, marketing scores, and platform fit.",
-      parameters: {
-        type: Type.OBJECT,
-        properties: {
-          score: { type: Type.NUMBER, description: "Overall quality score out of 100" },
-          issues: {
-            type: Type.ARRAY,
-            description: "List of time-stamped issues found in the video",
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                timestamp: { type: Type.STRING, description: "HH:MM:SS or MM:SS format relative to video start (00:00:00)" },
-                type: { type: Type.STRING, enum: ["spelling", "factual", "clarity", "marketing", "platform"] },
-                severity: { type: Type.STRING, enum: ["critical", "major", "minor", "suggestion"] },
-                description: { type: Type.STRING, description: "Short description of the issue" },
-                found: { type: Type.STRING, description: "What was found (e.g., the typo)" },
-                shouldBe: { type: Type.STRING, description: "The correction" },
-                impact: { type: Type.STRING, description: "Why this matters" }
-              },
-              required: ["timestamp", "type", "severity", "description"]
-            }
-          },
-          marketing: {
-            type: Type.OBJECT,
-            properties: {
-              overallScore: { type: Type.NUMBER },
-              hookScore: { type: Type.NUMBER },
-              hookFeedback: { type: Type.STRING },
-              ctaScore: { type: Type.NUMBER },
-              ctaFeedback: { type: Type.STRING },
-              retentionCurve: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    time: { type: Type.STRING, description: "HH:MM:SS or MM:SS format" },
-                    value: { type: Type.NUMBER },
-                    label: { type: Type.STRING }
-                  }
-                }
-              }
-            },
-            required: ["overallScore", "hookScore"]
-          },
-          platformFit: {
-            type: Type.OBJECT,
-            properties: {
-              aspectRatio: { type: Type.BOOLEAN },
-              duration: { type: Type.BOOLEAN },
-              thumbnail: { type: Type.STRING, enum: ["low", "medium", "high"] },
-              captions: { type: Type.BOOLEAN }
-            },
-            required: ["aspectRatio", "duration", "thumbnail", "captions"]
-          }
-        },
-        required: ["score", "issues", "marketing", "platformFit"]
-      }
-    }
-  ]
-};
-
-// --- 2. File API Logic ---
-
-interface UploadResult {
+const POLL_INTERVAL_MS = 5000;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_BASE_DELAY_MS = 2000;
+const DEFAULT_DEDUPE_TOLERANCE_SECONDS = 15;
+const DUPLICATE_TEXT_THRESHOLD = 0.6;
+const ISSUE_ID_TIME_BUCKET_SECONDS = 5; // Small timestamp drift between runs keeps the same ID
+const VERIFY_WINDOW_SECONDS = 15; // Clip sent for verification: issue time +/- this
+const VERIFIED_SEVERITIES: IssueSeverity[] = ['critical', 'major'];
+const REFUTE_CONFIDENCE_THRESHOLD = 0.6; // Below this a "refuted" verdict is shown but not acted on
+
+// --- 1. File API Logic ---
+
+export interface UploadResult {
+  name: string; // Provider-side handle, needed to delete the remote file
   uri: string;
   duration: string; // Duration string from API (e.g. "1200s")
+  reused?: boolean; // True when an earlier upload of the same content was still ACTIVE
 }
 
 /**
- * Uploads a file to Gemini using the File API, polls for processing, and returns the URI and Duration.
- * Handles large files (up to 2GB) by offloading processing to Google's servers.
+ * Best-effort removal of an uploaded file; never throws.
+ */
+export const deleteRemoteFile = async (provider: AnalysisProvider, name: string) => {
+  await forgetUpload(name);
+  try {
+    await provider.deleteFile(name);
+  } catch (error) {
+    console.warn(`Could not delete remote file ${name}:`, error);
+  }
+};
+
+/**
+ * Returns the remote file if the provider still has it in the ACTIVE state, otherwise null.
+ * Used to skip re-uploading when resuming or re-running an analysis.
+ */
+export const getActiveRemoteFile = async (
+  provider: AnalysisProvider,
+  name: string,
+  signal?: AbortSignal
+): Promise<UploadResult | null> => {
+  try {
+    const status = await provider.poll(name, signal);
+    if (status.state !== 'ACTIVE' || !status.uri) return null;
+    return { name, uri: status.uri, duration: status.duration };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    // Expired or deleted files 404 here
+    return null;
+  }
+};
+
+/**
+ * Uploads a file through the given provider, polls for processing, and returns the URI and Duration.
+ * Handles large files (up to 2GB) by offloading processing to the provider's servers.
+ * The file is fingerprinted first; if the same content was uploaded before and is still ACTIVE,
+ * the upload is skipped entirely.
+ * If `signal` aborts after the upload finished, the remote file is deleted before rejecting.
  */
 export const uploadFileToGemini = async (
   file: File, 
-  apiKey: string,
-  onStatusUpdate?: (status: string) => void
+  provider: AnalysisProvider,
+  onStatusUpdate?: (status: string) => void,
+  signal?: AbortSignal
 ): Promise<UploadResult> => {
-  if (!apiKey) throw new Error("API Key missing");
-  
-  const ai = new GoogleGenAI({ apiKey });
-  // Cast to any to avoid type errors if the SDK definition is incomplete in this version
-  const aiClient = ai as any;
+  let uploadedName: string | null = null;
 
   try {
-    // 1. Upload
-    if (onStatusUpdate) onStatusUpdate("Uploading to Gemini...");
-    
-    // Using ai.files.upload
-    const mimeType = file.type || "video/mp4";
-    const uploadResponse = await aiClient.files.upload({
-      file: file,
-      config: { mimeType: mimeType }
-    });
-
-    // Handle different response structures from the SDK (wrapped in .file or direct)
-    const uploadedFile = uploadResponse.file ?? uploadResponse;
-
-    if (!uploadedFile || !uploadedFile.uri) {
-      console.error("Unexpected Upload Response:", uploadResponse);
-      throw new Error("Upload failed: Response missing file URI. The API might have changed.");
+    // 0. Reuse a previous upload of identical content
+    if (onStatusUpdate) onStatusUpdate("Checking for a previous upload...");
+    let hash: string | null = null;
+    try {
+      hash = await hashFile(file);
+    } catch (error) {
+      console.warn("Could not fingerprint file, uploading normally:", error);
+    }
+    throwIfAborted(signal);
+
+    if (hash) {
+      const cached = await lookupUpload(hash, provider.id);
+      if (cached) {
+        const active = await getActiveRemoteFile(provider, cached.remoteFileName, signal);
+        if (active) {
+          if (onStatusUpdate) onStatusUpdate("Reusing previous upload. Skipping transfer...");
+          return { ...active, duration: active.duration || cached.duration, reused: true };
+        }
+        await forgetUpload(cached.remoteFileName);
+      }
     }
 
-    const fileUri = uploadedFile.uri;
-    const fileName = uploadedFile.name;
+    // 1. Upload
+    if (onStatusUpdate) onStatusUpdate(`Uploading to ${provider.label}...`);
+    const uploadedFile = await provider.upload(file, signal);
+    uploadedName = uploadedFile.name;
+    throwIfAborted(signal);
 
     // 2. Poll for Active State
     // We must wait for state === 'ACTIVE' before the model can use the file
-    if (onStatusUpdate) onStatusUpdate("Google is processing video...");
-    
-    let isProcessing = true;
-    let duration = "";
-
-    while (isProcessing) {
-      const fileStatusResponse = await aiClient.files.get({ name: fileName });
-      const fileStatus = fileStatusResponse.file ?? fileStatusResponse;
+    if (onStatusUpdate) onStatusUpdate("Processing video on server...");
+
+    while (true) {
+      const fileStatus = await provider.poll(uploadedFile.name, signal);
       
       if (fileStatus.state === 'ACTIVE') {
-        isProcessing = false;
-        // Capture duration from metadata if available
-        duration = fileStatus.videoMetadata?.videoDuration || "";
-        return { uri: fileUri, duration };
+        const result = { name: uploadedFile.name, uri: fileStatus.uri || uploadedFile.uri, duration: fileStatus.duration };
+        if (hash) {
+          await rememberUpload({
+            hash,
+            providerId: provider.id,
+            remoteFileName: result.name,
+            uri: result.uri,
+            duration: result.duration,
+            expiresAt: uploadedFile.expiresAt ? Date.parse(uploadedFile.expiresAt) : null,
+            fileName: file.name
+          });
+        }
+        return result;
       } else if (fileStatus.state === 'FAILED') {
-        throw new Error("Video processing failed on Google servers.");
-      } else {
-        // Still processing, wait 5 seconds before checking again
-        if (onStatusUpdate) onStatusUpdate(`Google is processing video... (${fileStatus.state})`);
-        await new Promise(resolve => setTimeout(resolve, 5000));
+        throw new Error("Video processing failed on the provider's servers.");
       }
+
+      // Still processing, wait before checking again
+      if (onStatusUpdate) onStatusUpdate(`Processing video on server... (${fileStatus.state})`);
+      await sleep(POLL_INTERVAL_MS, signal);
     }
-    
-    return { uri: fileUri, duration };
 
   } catch (error: any) {
+    if (isAbortError(error) || signal?.aborted) {
+      // Don't leave a (potentially 2GB) upload behind on the provider
+      if (uploadedName) await deleteRemoteFile(provider, uploadedName);
+      throw error;
+    }
     console.error("Upload failed:", error);
     throw new Error(`Upload failed: ${error.message}`);
   }
@@ -181,56 +185,284 @@ const formatSecondsToTimestamp = (seconds: number): string => {
   return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
 };
 
+export interface AnalysisRunOptions {
+  concurrency?: number; // Max segments in flight at once (default 1 = sequential)
+  maxRetries?: number; // Retries per segment for transient errors (429, 5xx, unstructured reply)
+  retryBaseDelayMs?: number; // Backoff before the first retry; doubles each time
+  overlapSeconds?: number; // How far each segment reaches back into the previous one
+  dedupeToleranceSeconds?: number; // Max time gap for two similar issues to count as one
+  signal?: AbortSignal; // Cancels pending and in-flight segments
+  completedSegments?: Record<number, AnalysisResult>; // From a checkpoint; these segments are skipped
+  onSegmentComplete?: (index: number, result: AnalysisResult) => void; // For checkpointing
+  price?: ModelPrice; // Token prices for cost estimates (defaults to the built-in table)
+  onUsageUpdate?: (usage: UsageSummary) => void; // Running totals, including failed attempts
+  channelProfile?: ChannelProfile; // Knowledge base injected into every prompt
+  knowledgeSnippets?: KnowledgeSnippet[]; // Retrieved prior findings for this channel
+  subject?: Subject; // Picks the factual rule set (defaults to physics)
+  glossary?: GlossaryTerm[]; // Correct spellings for the subject; also used to drop false spelling issues
+  checks?: CheckDefinition[]; // Checks to run (defaults to DEFAULT_CHECK_IDS)
+  verifyFindings?: boolean; // Second pass over critical/major issues (one request each)
+  transcribe?: boolean; // Extra request per segment for a timestamped transcript
+  captions?: CaptionTrack; // Attached caption file; enables the caption checks
+  media?: MediaInfo; // Locally measured file properties; override the model's platform fit guesses
+  audio?: AudioAnalysis; // Locally measured loudness; its issues are added when the audio check runs
+  platformProfile?: PlatformProfile; // Rules for the target platform, with the user's overrides (defaults to stored ones)
+}
+
+interface SegmentPlan {
+  index: number;
+  start: number; // seconds
+  end: number;   // seconds
+}
+
+const KNOWLEDGE_HEADINGS: Record<KnowledgeSnippet['kind'], string> = {
+  intended: "Intended usage",
+  glossary: "Glossary",
+  correction: "Previously corrected",
+  finding: "Previously flagged"
+};
+
+/**
+ * Renders a channel profile, plus any retrieved prior findings, as the knowledge-base block
+ * at the top of each prompt. Empty fields are omitted rather than sent as blanks.
+ */
+const buildChannelContext = (profile: ChannelProfile, channelUrl: string, snippets: KnowledgeSnippet[] = []): string => {
+  const { topPerformingPatterns: patterns, brandGuidelines: brand } = profile;
+  const lines = [
+    brand.tone && `- Tone: ${brand.tone}.`,
+    brand.visuals && `- Visual Style: ${brand.visuals}.`,
+    brand.colors.length > 0 && `- Brand Colors: ${brand.colors.join(", ")}.`,
+    patterns.winningFormats.length > 0 && `- Winning Formats: ${patterns.winningFormats.join(", ")}.`,
+    patterns.hookDuration && `- Hook Window: ${patterns.hookDuration}.`,
+    patterns.avgViewDuration && `- Average View Duration: ${patterns.avgViewDuration}.`,
+    patterns.commonPitfalls.length > 0 && `- Common Pitfalls: ${patterns.commonPitfalls.join(", ")}.`,
+    channelUrl && `- Target Channel URL: ${channelUrl}`
+  ].filter(Boolean);
+
+  const priorLines = snippets.map(snippet => `- ${KNOWLEDGE_HEADINGS[snippet.kind]}: ${snippet.text}`);
+  const prior = priorLines.length > 0
+    ? `
+      PRIOR FINDINGS FOR THIS CHANNEL (do NOT report "Intended usage" items; DO watch for "Previously corrected" mistakes):
+      ${priorLines.join("\n      ")}`
+    : '';
+
+  return `
+      CONTEXT: CHANNEL KNOWLEDGE BASE (${profile.channelName})
+      ${lines.join("\n      ")}${prior}
+    `;
+};
+
+/**
+ * Renders the subject glossary as reference vocabulary for the spelling check.
+ */
+const buildGlossaryContext = (subject: Subject, terms: GlossaryTerm[]): string => {
+  if (terms.length === 0) return '';
+  const label = getSubjectLabel(subject);
+  const entries = terms.slice(0, MAX_PROMPT_TERMS).map(t => t.variants.length > 0 ? `${t.term} (also: ${t.variants.join(", ")})` : t.term);
+  return `
+      REFERENCE VOCABULARY (${label}): These spellings and transliterations are CORRECT. Never report them as spelling errors; report near-misses of them.
+      ${entries.join("; ")}
+    `;
+};
+
+/**
+ * Measured file facts, so the model reasons about framing from real numbers instead of guessing.
+ */
+const buildMediaContext = (media: MediaInfo): string => {
+  const facts = [
+    `${media.width}x${media.height} (${media.aspectRatio})`,
+    `${Math.round(media.durationSeconds)}s`,
+    media.frameRate ? `${media.frameRate} fps` : null,
+    media.hasAudio === false ? 'no audio track' : null
+  ].filter(Boolean);
+  return `
+      Measured File Properties: ${facts.join(', ')}.`;
+};
+
+/**
+ * CAPTION CUES section for one segment: only the cues overlapping its window, numbered as in the file.
+ */
+const buildCaptionContext = (track: CaptionTrack, start: number, end: number): string => {
+  const cues = getCuesInWindow(track, start, end);
+  if (cues.length === 0) return '';
+  return `
+      CAPTION CUES (from the attached caption file "${track.fileName}"; refer to them by #):
+      ${formatCuesForPrompt(cues)}
+    `;
+};
+
+/**
+ * Drops `spelling` and `caption-spelling` issues whose `found` text is in the glossary. The prompt asks the model not to
+ * flag these, but it does not always listen.
+ */
+const suppressGlossaryIssues = (result: AnalysisResult, terms: GlossaryTerm[]): AnalysisResult => {
+  const allowlist = buildAllowlist(terms);
+  const issues = result.issues.filter(issue =>
+    !((issue.type === 'spelling' || issue.type === 'caption-spelling') && isAllowlisted(issue.found, allowlist)));
+  const suppressed = result.issues.length - issues.length;
+  if (suppressed === 0) return result;
+  return {
+    ...result,
+    issues,
+    notices: [
+      ...(result.notices || []),
+      `${suppressed} spelling issue(s) dropped because the flagged text is in the subject glossary.`
+    ]
+  };
+};
+
+/**
+ * Drops issues no selected check covers (e.g. formula findings on a Shorts pass, or visual
+ * findings when only the audio check was picked) and tags the rest with their check id.
+ */
+const suppressUncheckedIssues = (result: AnalysisResult, checks: CheckDefinition[]): AnalysisResult => {
+  const issues = result.issues.flatMap(issue => {
+    const checkId = resolveCheckId(issue, checks);
+    return checkId ? [{ ...issue, checkId }] : [];
+  });
+  const suppressed = result.issues.length - issues.length;
+  return {
+    ...result,
+    issues,
+    ...(suppressed > 0 ? {
+      notices: [
+        ...(result.notices || []),
+        `${suppressed} issue(s) dropped because no selected check covers them.`
+      ]
+    } : {})
+  };
+};
+
+/**
+ * Records which subject rule set produced each factual issue.
+ */
+const tagRuleSet = (result: AnalysisResult, ruleSetId: string): AnalysisResult => ({
+  ...result,
+  issues: result.issues.map(issue => issue.type === 'factual' ? { ...issue, ruleSet: ruleSetId } : issue)
+});
+
+/**
+ * Number of segments a video of this duration is split into.
+ */
+export const getSegmentCount = (durationStr: string): number => {
+  const durationSeconds = parseDurationSeconds(durationStr);
+  return durationSeconds > 0 ? Math.ceil(durationSeconds / (CHUNK_SIZE_MINUTES * 60)) : 1;
+};
+
+/**
+ * Runs `worker` over `items` with at most `limit` promises in flight.
+ */
+const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> => {
+  let next = 0;
+  const laneCount = Math.max(1, Math.min(limit, items.length));
+  const lanes = Array.from({ length: laneCount }, async () => {
+    while (next < items.length) {
+      throwIfAborted(signal);
+      const item = items[next++];
+      await worker(item);
+    }
+  });
+  await Promise.all(lanes);
+};
+
 /**
  * Runs analysis on an already uploaded file URI.
- * Implements Chunking Strategy for long videos.
+ * Implements Chunking Strategy for long videos; segments are dispatched
+ * concurrently (bounded by `options.concurrency`) and merged in timestamp order.
  */
 export const runGeminiAnalysis = async (
+  provider: AnalysisProvider,
   fileUri: string,
   title: string,
-  platform: string,
+  platform: PlatformId,
   durationStr: string,
-  apiKey: string,
   channelUrl: string, // Added Channel URL context
-  onStatusUpdate?: (status: string) => void
+  onStatusUpdate?: (status: string) => void,
+  options: AnalysisRunOptions = {}
 ): Promise<AnalysisResult> => {
-  if (!apiKey) throw new Error("API Key missing");
-
-  const ai = new GoogleGenAI({ apiKey });
   const durationSeconds = parseDurationSeconds(durationStr);
   const chunkSeconds = CHUNK_SIZE_MINUTES * 60;
   
   // Determine if we need to chunk
-  const totalChunks = durationSeconds > 0 ? Math.ceil(durationSeconds / chunkSeconds) : 1;
+  const totalChunks = getSegmentCount(durationStr);
   const useChunking = totalChunks > 1;
+  const concurrency = Math.max(1, options.concurrency || 1);
 
   if (useChunking && onStatusUpdate) {
-    onStatusUpdate(`Video is long. Splitting into ${totalChunks} segments for deep analysis...`);
+    onStatusUpdate(`Video is long. Splitting into ${totalChunks} segments (${Math.min(concurrency, totalChunks)} in parallel)...`);
   }
 
-  const results: AnalysisResult[] = [];
+  // Overlap windows so content straddling a boundary (e.g. 19:58-20:05) is seen whole by one segment
+  const overlapSeconds = Math.max(0, Math.min(options.overlapSeconds ?? DEFAULT_OVERLAP_SECONDS, chunkSeconds / 2));
+  const segments: SegmentPlan[] = Array.from({ length: totalChunks }, (_, i) => ({
+    index: i,
+    start: Math.max(0, i * chunkSeconds - overlapSeconds),
+    end: Math.min((i + 1) * chunkSeconds, durationSeconds)
+  }));
+
+  // Indexed by segment so completion order never affects merge order
+  const results: (AnalysisResult | undefined)[] = new Array(totalChunks);
+  const failedSegments: FailedSegment[] = [];
+  let completed = 0;
+
+  // Every billed response counts, including retries that failed to parse
+  const price = options.price || getModelPrice(provider.model, DEFAULT_PRICE_TABLE);
+  let totalUsage = emptyUsage(provider.model);
+
+  // Seed from a checkpoint so only the missing segments are sent to the provider
+  Object.entries(options.completedSegments || {}).forEach(([index, result]) => {
+    const i = Number(index);
+    if (i >= 0 && i < totalChunks && result) {
+      results[i] = result;
+      completed++;
+      if (result.usage) totalUsage = addUsage(totalUsage, result.usage);
+    }
+  });
+  if (options.onUsageUpdate) options.onUsageUpdate(totalUsage);
+  const pendingSegments = segments.filter(segment => !results[segment.index]);
 
-  for (let i = 0; i < totalChunks; i++) {
-    const startTime = i * chunkSeconds;
-    const endTime = Math.min((i + 1) * chunkSeconds, durationSeconds);
-    
+  if (completed > 0 && onStatusUpdate) {
+    onStatusUpdate(`Analyzing... Resuming with ${completed}/${totalChunks} segments already done`);
+  }
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const subject = options.subject || 'physics';
+  const ruleSet = SUBJECT_RULE_SETS[subject];
+  const channelProfile = options.channelProfile || DEFAULT_CHANNEL_PROFILE;
+  const channelContext = buildChannelContext(channelProfile, channelUrl, options.knowledgeSnippets);
+  const glossary = options.glossary || [];
+  const glossaryContext = buildGlossaryContext(subject, glossary);
+  const checks = options.checks && options.checks.length > 0 ? options.checks : getChecks(DEFAULT_CHECK_IDS);
+  const platformProfile = options.platformProfile || getPlatformProfile(platform);
+  const platformContext = buildPlatformPrompt(platformProfile);
+  const media = options.media && options.media.width > 0 ? options.media : undefined;
+  const mediaContext = media ? buildMediaContext(media) : '';
+
+  const recordUsage = (usage: TokenUsage): UsageSummary => {
+    const attemptUsage = priceUsage(usage, provider.model, price);
+    totalUsage = addUsage(totalUsage, attemptUsage);
+    if (options.onUsageUpdate) options.onUsageUpdate(totalUsage);
+    return attemptUsage;
+  };
+
+  const analyzeSegment = async ({ index: i, start: startTime, end: endTime }: SegmentPlan) => {
     // Format HH:MM:SS for prompt (more robust than MM:SS for long videos)
     const startStr = formatSecondsToTimestamp(startTime);
     const endStr = formatSecondsToTimestamp(endTime);
 
     if (onStatusUpdate) {
       onStatusUpdate(useChunking 
-        ? `Analyzing Segment ${i + 1}/${totalChunks} (${startStr} - ${endStr})...`
+        ? `Analyzing Segment ${i + 1}/${totalChunks} (${startStr} - ${endStr})... [${completed}/${totalChunks} done]`
         : "Analyzing video frames (00:00 to end)..."
       );
     }
 
-    const ragContext = `
-      CONTEXT: CHANNEL KNOWLEDGE BASE (${CHANNEL_CONTEXT.channelName})
-      - Visual Style: ${CHANNEL_CONTEXT.brandGuidelines.visuals}.
-      - Common Pitfalls: ${CHANNEL_CONTEXT.topPerformingPatterns.commonPitfalls.join(", ")}.
-      ${channelUrl ? `- Target Channel URL: ${channelUrl}` : ''}
-    `;
+    const ragContext = channelContext;
+    const captionContext = options.captions ? buildCaptionContext(options.captions, startTime, endTime) : '';
 
     // Prompt optimized for SEGMENTS or FULL video
     const timeInstruction = useChunking 
@@ -240,113 +472,389 @@ export const runGeminiAnalysis = async (
       : `CRITICAL INSTRUCTION: Analyze the video from 00:00 to the very end. Do not stop in the middle.`;
 
     const prompt = `
-      ${ragContext}
-      Target Platform: ${platform}.
+      ${ragContext}${glossaryContext}${captionContext}
+      Target Platform: ${platformProfile.label}.${mediaContext}${platformContext}
       Video Title: "${title}"
       
-      ROLE: You are the Ultimate Video QA System for Physics Wallah.
+      ROLE: You are the Ultimate Video QA System for ${channelProfile.channelName}, reviewing a ${ruleSet.label} lesson.
       TASK: Perform a FRAME-BY-FRAME analysis.
       
       ${timeInstruction}
 
       CHECKS:
-      1. Identify spelling errors in Hindi/English text overlays within this timeframe.
-      2. Check physics formulas for accuracy within this timeframe.
-      3. ${i === 0 ? "Analyze marketing hook (first 15s)." : "Skip marketing hook analysis for this segment."}
-      4. ${i === totalChunks - 1 ? "Analyze CTA effectiveness at the end." : "Skip CTA analysis for this segment."}
-      5. Call the function 'submit_video_analysis' with your findings for THIS segment.
+      ${buildChecksPrompt(checks, i, totalChunks, { hasGlossary: !!glossaryContext, hasCaptions: !!captionContext, hasAudioMetrics: !!options.audio, hasSafeZone: !!platformProfile.safeZone, ruleSet })}
     `;
 
+    let attempts = 0;
+    let segmentUsage = emptyUsage(provider.model);
     try {
-      const response = await ai.models.generateContent({
-        model: MODEL_NAME,
-        contents: [
-          {
-            role: "user",
-            parts: [
-              { text: prompt },
-              {
-                fileData: {
-                  mimeType: "video/mp4",
-                  fileUri: fileUri
-                }
-              }
-            ]
+      results[i] = await withRetry(async () => {
+        attempts++;
+        const response = await provider.analyzeSegment({
+          fileUri,
+          mimeType: "video/mp4",
+          prompt,
+          segmentIndex: i,
+          totalSegments: totalChunks,
+          signal: options.signal
+        });
+        if (response.usage) segmentUsage = addUsage(segmentUsage, recordUsage(response.usage));
+        // Pass startTime to parseResponse for timestamp correction
+        return { ...parseResponse(response, title, platform, startTime, endTime), usage: segmentUsage };
+      }, {
+        maxRetries,
+        baseDelayMs: options.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS,
+        signal: options.signal,
+        onRetry: (attempt, delayMs, err) => {
+          console.warn(`Segment ${i + 1} attempt ${attempt} failed:`, err);
+          if (onStatusUpdate) {
+            onStatusUpdate(`Analyzing Segment ${i + 1}/${totalChunks}: transient error, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1}/${maxRetries + 1})...`);
           }
-        ],
-        config: {
-          tools: [analysisTool],
-          safetySettings: [
-            { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-            { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-            { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-            { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
-          ],
-        },
+        }
       });
 
-      // Pass startTime to parseResponse for timestamp correction
-      const chunkResult = parseResponse(response, title, platform, startTime, endTime);
-      results.push(chunkResult);
+      if (options.transcribe) {
+        // Transcribe only this segment's own window so overlapping segments do not repeat lines
+        const transcriptStart = i * chunkSeconds;
+        const transcriptEnd = Math.max(endTime, transcriptStart + 1);
+        if (onStatusUpdate) onStatusUpdate(`Transcribing Segment ${i + 1}/${totalChunks}...`);
+        try {
+          const { lines, warnings } = await withRetry(async () => {
+            const response = await provider.transcribeSegment({
+              fileUri,
+              mimeType: "video/mp4",
+              prompt: buildTranscriptPrompt(title, formatSecondsToTimestamp(transcriptStart), formatSecondsToTimestamp(transcriptEnd)),
+              startSeconds: transcriptStart,
+              endSeconds: transcriptEnd,
+              segmentIndex: i,
+              signal: options.signal
+            });
+            if (response.usage) segmentUsage = addUsage(segmentUsage, recordUsage(response.usage));
+            return parseTranscriptResponse(response, transcriptStart);
+          }, {
+            maxRetries,
+            baseDelayMs: options.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS,
+            signal: options.signal
+          });
+          const windowLabel = `[transcript ${formatSecondsToTimestamp(transcriptStart)}-${formatSecondsToTimestamp(transcriptEnd)}]`;
+          results[i] = {
+            ...results[i]!,
+            transcript: lines,
+            usage: segmentUsage,
+            validationWarnings: [...(results[i]!.validationWarnings || []), ...warnings.map(w => `${windowLabel} ${w}`)]
+          };
+        } catch (err: any) {
+          if (isAbortError(err)) throw err;
+          // The findings are still good; a missing transcript only costs the Transcript tab
+          console.error(`Transcript for segment ${i + 1} failed:`, err);
+          results[i] = {
+            ...results[i]!,
+            usage: segmentUsage,
+            notices: [
+              ...(results[i]!.notices || []),
+              `[transcript ${formatSecondsToTimestamp(transcriptStart)}-${formatSecondsToTimestamp(transcriptEnd)}] Transcription failed (${err?.message || String(err)}); no transcript for this segment.`
+            ]
+          };
+        }
+      }
+
+      completed++;
+      if (options.onSegmentComplete) options.onSegmentComplete(i, results[i]);
 
-    } catch (err) {
+      if (useChunking && onStatusUpdate) {
+        onStatusUpdate(`Analyzing... Segment ${i + 1}/${totalChunks} complete [${completed}/${totalChunks} done]`);
+      }
+
+    } catch (err: any) {
+      if (isAbortError(err)) throw err;
       console.error(`Error in chunk ${i + 1}:`, err);
-      // Continue to next chunk even if one fails, to salvage data
-      if (onStatusUpdate) onStatusUpdate(`Segment ${i + 1} failed, retrying next...`);
+      // Continue with other chunks even if one fails, to salvage data, but record the gap
+      failedSegments.push({
+        index: i,
+        start: startStr,
+        end: endStr,
+        attempts,
+        error: err?.message || String(err)
+      });
+      if (onStatusUpdate) onStatusUpdate(`Segment ${i + 1} failed after ${attempts} attempt(s). Continuing with remaining segments...`);
     }
-  }
+  };
+
+  await runWithConcurrency(pendingSegments, concurrency, analyzeSegment, options.signal);
+  throwIfAborted(options.signal);
 
-  if (results.length === 0) {
+  const orderedResults = results.filter((r): r is AnalysisResult => !!r);
+
+  if (orderedResults.length === 0) {
     throw new Error("Analysis failed to produce any results.");
   }
 
   if (onStatusUpdate) onStatusUpdate("Merging analysis data...");
-  return mergeAnalysisResults(results, durationStr);
+  let merged = mergeAnalysisResults(orderedResults, durationStr, options.dedupeToleranceSeconds ?? DEFAULT_DEDUPE_TOLERANCE_SECONDS);
+  merged = suppressUncheckedIssues(merged, checks);
+  merged = suppressGlossaryIssues(merged, glossary);
+  merged = tagRuleSet(merged, ruleSet.id);
+  if (media) {
+    const { fit, notices } = applyMeasuredFit(merged.platformFit, media, platformProfile);
+    merged = { ...merged, media, platformFit: fit, notices: [...(merged.notices || []), ...notices] };
+  }
+  if (checks.some(c => c.id === 'safe-zone')) {
+    const safeZone = checkSafeZoneIssues(merged.issues, platformProfile);
+    merged = { ...merged, issues: safeZone.issues, notices: [...(merged.notices || []), ...safeZone.notices] };
+  }
+  if (options.captions) {
+    // A caption file was supplied, so captions exist regardless of what the model saw burned in
+    merged = { ...merged, captions: options.captions, platformFit: { ...merged.platformFit, captions: true } };
+  }
+
+  if (options.verifyFindings) {
+    merged = await verifyIssues(provider, fileUri, title, merged, ruleSet, {
+      concurrency,
+      maxRetries,
+      retryBaseDelayMs: options.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS,
+      signal: options.signal,
+      onStatusUpdate,
+      recordUsage
+    });
+  }
+  if (options.audio) {
+    // Added after verification: measured findings need no second opinion
+    const audioIssues = checks.some(c => c.id === 'audio') ? options.audio.issues : [];
+    const issues = finalizeIssues([...merged.issues, ...audioIssues])
+      .sort((a, b) => parseTimestampToSeconds(a.timestamp) - parseTimestampToSeconds(b.timestamp));
+    merged = { ...merged, issues, audio: options.audio.metrics };
+  }
+  failedSegments.sort((a, b) => a.index - b.index);
+  return { ...merged, failedSegments, usage: totalUsage };
+};
+
+// --- Transcript ---
+
+const buildTranscriptPrompt = (title: string, startStr: string, endStr: string): string => `
+      Transcribe the speech in the video "${title}" from ${startStr} to ${endStr}.
+      The lecture may be in Hindi, English or code-mixed Hinglish. Write Hindi speech in Devanagari and
+      keep English technical terms in Latin script exactly as spoken; do not translate.
+      Split the speech into short lines (one sentence or phrase each) with ABSOLUTE start and end timestamps
+      (HH:MM:SS, relative to the video start) and tag each line's language as "hi", "en" or "mixed".
+      Call the function 'submit_transcript' with the lines in order.
+    `;
+
+/**
+ * Validates a `submit_transcript` response and applies the same relative-timestamp
+ * correction as issues, so lines always carry absolute times.
+ */
+const parseTranscriptResponse = (response: SegmentResponse, windowStart: number): { lines: TranscriptLine[]; warnings: string[] } => {
+  if (response.functionCall?.name !== "submit_transcript") {
+    throw new Error("AI returned text instead of structured data. Retrying recommended.");
+  }
+  const { value, warnings } = validateTranscriptPayload(response.functionCall.args);
+  const lines = value.map(line => {
+    const start = parseTimestampToSeconds(line.start);
+    const offset = windowStart > 0 && start < windowStart ? windowStart : 0;
+    const end = line.end ? parseTimestampToSeconds(line.end) + offset : undefined;
+    return {
+      ...line,
+      start: formatSecondsToTimestamp(start + offset),
+      end: end !== undefined && end > start + offset ? formatSecondsToTimestamp(end) : undefined
+    };
+  });
+  lines.sort((a, b) => parseTimestampToSeconds(a.start) - parseTimestampToSeconds(b.start));
+  return { lines, warnings };
+};
+
+// --- Second Pass: Verification ---
+
+interface VerificationContext {
+  concurrency: number;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  signal?: AbortSignal;
+  onStatusUpdate?: (status: string) => void;
+  recordUsage: (usage: TokenUsage) => void;
+}
+
+const buildVerificationPrompt = (issue: Issue, title: string, ruleSet: SubjectRuleSet, startStr: string, endStr: string): string => `
+      A first QA pass over the video "${title}" reported the issue below. You are given only the clip ${startStr} - ${endStr}.
+
+      REPORTED ISSUE:
+      - Timestamp: ${issue.timestamp}
+      - Type: ${issue.type}
+      - Severity: ${issue.severity}
+      - Description: ${issue.description}
+      ${issue.found ? `- Found: ${issue.found}` : ''}
+      ${issue.shouldBe ? `- Should Be: ${issue.shouldBe}` : ''}
+
+      TASK: Re-check the clip carefully and decide whether the issue is real.
+      - "confirmed": the problem is clearly present.
+      - "refuted": what is shown is actually correct (e.g. a valid formula or spelling), or the problem is not in the clip.
+      - "uncertain": the clip does not let you decide.
+      ${issue.type === 'factual' ? `Judge correctness using ${ruleSet.label} rules: ${ruleSet.instructions.join("; ")}.` : ''}
+      Call the function 'submit_issue_verification' with your verdict, a confidence between 0 and 1, and brief reasoning.
+    `;
+
+/**
+ * Re-queries the model on a short clip around every critical/major issue and attaches the
+ * verdict. Confidently refuted issues are demoted to "suggestion" (never deleted) and keep their
+ * original severity. A failed verification leaves the issue unverified and adds a warning.
+ */
+const verifyIssues = async (
+  provider: AnalysisProvider,
+  fileUri: string,
+  title: string,
+  result: AnalysisResult,
+  ruleSet: SubjectRuleSet,
+  context: VerificationContext
+): Promise<AnalysisResult> => {
+  const targets = result.issues.filter(issue => VERIFIED_SEVERITIES.includes(issue.severity) && !issue.fixed);
+  if (targets.length === 0) return result;
+
+  const verified = new Map<string, Issue>();
+  const warnings: string[] = []; // Repairs to verification payloads
+  const notices: string[] = []; // Issues that could not be verified
+  let done = 0;
+  if (context.onStatusUpdate) context.onStatusUpdate(`Verifying ${targets.length} critical/major finding(s)...`);
+
+  await runWithConcurrency(targets, context.concurrency, async (issue) => {
+    const seconds = parseTimestampToSeconds(issue.timestamp);
+    const start = Math.max(0, seconds - VERIFY_WINDOW_SECONDS);
+    const end = (issue.endTimestamp ? parseTimestampToSeconds(issue.endTimestamp) : seconds) + VERIFY_WINDOW_SECONDS;
+    const prompt = buildVerificationPrompt(issue, title, ruleSet, formatSecondsToTimestamp(start), formatSecondsToTimestamp(end));
+
+    try {
+      const { value, warnings: payloadWarnings } = await withRetry(async () => {
+        const response = await provider.verifyIssue({
+          fileUri,
+          mimeType: "video/mp4",
+          prompt,
+          startSeconds: start,
+          endSeconds: end,
+          issue,
+          signal: context.signal
+        });
+        if (response.usage) context.recordUsage(response.usage);
+        if (response.functionCall?.name !== "submit_issue_verification") {
+          throw new Error("AI returned text instead of structured data. Retrying recommended.");
+        }
+        return validateVerificationPayload(response.functionCall.args);
+      }, {
+        maxRetries: context.maxRetries,
+        baseDelayMs: context.retryBaseDelayMs,
+        signal: context.signal
+      });
+
+      payloadWarnings.forEach(w => warnings.push(`[verify ${issue.timestamp}] ${w}`));
+      const demote = value.verdict === 'refuted' && value.confidence >= REFUTE_CONFIDENCE_THRESHOLD;
+      verified.set(issue.id, {
+        ...issue,
+        severity: demote ? 'suggestion' : issue.severity,
+        verification: { ...value, ...(demote ? { originalSeverity: issue.severity } : {}) }
+      });
+    } catch (err: any) {
+      if (isAbortError(err)) throw err;
+      console.error(`Verification of issue ${issue.id} failed:`, err);
+      notices.push(`[verify ${issue.timestamp}] Verification failed (${err?.message || String(err)}); issue left unverified.`);
+    }
+
+    done++;
+    if (context.onStatusUpdate) context.onStatusUpdate(`Verifying findings... ${done}/${targets.length} done`);
+  }, context.signal);
+  throwIfAborted(context.signal);
+
+  return {
+    ...result,
+    issues: result.issues.map(issue => verified.get(issue.id) || issue),
+    validationWarnings: [...(result.validationWarnings || []), ...warnings],
+    notices: [...(result.notices || []), ...notices]
+  };
+};
+
+// --- Helper: Stable Issue IDs ---
+
+// FNV-1a 32-bit: tiny, synchronous and stable across sessions
+const hashString = (input: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Deterministic ID from timestamp, type and text, so the same finding keeps its ID
+ * (and its "fixed" state can be matched) across re-analyses.
+ */
+const computeIssueId = (issue: ValidatedIssue): string => {
+  const bucket = Math.floor(parseTimestampToSeconds(issue.timestamp) / ISSUE_ID_TIME_BUCKET_SECONDS);
+  const text = normalizeText(issue.found || issue.description);
+  return `${issue.type}-${bucket}-${hashString(`${issue.type}|${bucket}|${text}`)}`;
+};
+
+/**
+ * Gives every issue a unique, stable ID and a `fixed` flag so it is fully populated per types.ts.
+ * Colliding IDs (two findings with the same text in the same bucket) get a numeric suffix.
+ */
+const finalizeIssues = (issues: (ValidatedIssue & Partial<Pick<Issue, 'id' | 'fixed'>>)[]): Issue[] => {
+  const seen = new Map<string, number>();
+  return issues.map(issue => {
+    const baseId = computeIssueId(issue);
+    const count = (seen.get(baseId) || 0) + 1;
+    seen.set(baseId, count);
+    return {
+      ...issue,
+      id: count === 1 ? baseId : `${baseId}-${count}`,
+      fixed: issue.fixed ?? false
+    };
+  });
 };
 
 // --- Helper: Parse Single Response ---
 const parseResponse = (
-  response: any, 
+  response: SegmentResponse, 
   title: string, 
-  platform: string, 
+  platform: PlatformId, 
   segmentStart: number,
   segmentEnd: number
 ): AnalysisResult => {
-  const candidates = response.candidates;
-  if (!candidates || candidates.length === 0) {
-    throw new Error("No response from AI");
-  }
-
-  const firstCandidate = candidates[0];
-  const parts = firstCandidate.content?.parts;
-  const functionCallPart = parts?.find((part: any) => part.functionCall);
-
-  if (functionCallPart && functionCallPart.functionCall) {
-    const fc = functionCallPart.functionCall;
+  if (response.functionCall) {
+    const fc = response.functionCall;
     if (fc.name === "submit_video_analysis") {
-      const args = fc.args as unknown as AnalysisResult;
+      // Never trust the declared schema: normalise every field before it reaches the UI
+      const { value: args, warnings } = validateAnalysisPayload(fc.args, platform);
+      const windowLabel = `[${formatSecondsToTimestamp(segmentStart)}-${formatSecondsToTimestamp(segmentEnd)}]`;
       
       // FIX: Apply Timestamp Correction Logic
       // If AI returns relative timestamps (e.g. 00:05 for a segment starting at 20:00), 
       // we detect it and offset it.
       
-      const correctedIssues = (args.issues || []).map(issue => {
+      const correctedIssues = finalizeIssues(args.issues.map(issue => {
         let seconds = parseTimestampToSeconds(issue.timestamp);
         
         // HEURISTIC: If the timestamp is significantly smaller than the segment start
         // (and it's not the first segment), it's likely relative.
-        if (segmentStart > 0 && seconds < segmentStart) {
-          seconds += segmentStart;
+        const offset = segmentStart > 0 && seconds < segmentStart ? segmentStart : 0;
+        seconds += offset;
+
+        // A range end is relative whenever its start was; drop ends that do not follow the start
+        let endTimestamp: string | undefined;
+        if (issue.endTimestamp) {
+          const endSeconds = parseTimestampToSeconds(issue.endTimestamp) + offset;
+          if (endSeconds > seconds) {
+            endTimestamp = formatSecondsToTimestamp(endSeconds);
+          } else {
+            warnings.push(`Issue at ${formatSecondsToTimestamp(seconds)} had an end time (${issue.endTimestamp}) that was not after its start; treated as a single moment.`);
+          }
         }
         
         return {
           ...issue,
-          timestamp: formatSecondsToTimestamp(seconds)
+          timestamp: formatSecondsToTimestamp(seconds),
+          endTimestamp
         };
-      });
+      }));
 
       // Fix retention curve timestamps as well if they exist
-      const correctedRetention = args.marketing?.retentionCurve?.map(point => {
+      const correctedRetention = args.marketing.retentionCurve.map(point => {
         let seconds = parseTimestampToSeconds(point.time);
          if (segmentStart > 0 && seconds < segmentStart) {
           seconds += segmentStart;
@@ -355,17 +863,19 @@ const parseResponse = (
           ...point,
           time: formatSecondsToTimestamp(seconds)
         };
-      }) || [];
+      });
 
       return {
         ...args,
+        duration: '',
         issues: correctedIssues,
         marketing: {
           ...args.marketing,
           retentionCurve: correctedRetention
         },
         videoTitle: title,
-        platform: platform
+        platform: platform,
+        validationWarnings: warnings.map(w => `${windowLabel} ${w}`)
       };
     }
   }
@@ -373,9 +883,71 @@ const parseResponse = (
   throw new Error("AI returned text instead of structured data. Retrying recommended.");
 };
 
+// --- Helper: Boundary-aware Issue Deduplication ---
+const SEVERITY_RANK: Record<IssueSeverity, number> = { critical: 0, major: 1, minor: 2, suggestion: 3 };
+
+/**
+ * Two issues are duplicates when they share a type, sit within `toleranceSeconds`
+ * of each other and describe the same thing (compared on `found` when both have it).
+ */
+const isDuplicateIssue = (a: Issue, b: Issue, toleranceSeconds: number): boolean => {
+  if (a.type !== b.type) return false;
+  if (a.cueIndex !== undefined && b.cueIndex !== undefined && a.cueIndex !== b.cueIndex) return false;
+  const gap = Math.abs(parseTimestampToSeconds(a.timestamp) - parseTimestampToSeconds(b.timestamp));
+  if (gap > toleranceSeconds) return false;
+  if (a.found && b.found) {
+    return textSimilarity(a.found, b.found) >= DUPLICATE_TEXT_THRESHOLD;
+  }
+  return textSimilarity(a.description, b.description) >= DUPLICATE_TEXT_THRESHOLD;
+};
+
+/**
+ * Collapses near-duplicates (typically reported by two overlapping segments), keeping the
+ * earliest timestamp and the most severe rating, and filling any fields the survivor lacks.
+ */
+const latestEnd = (a?: string, b?: string): string | undefined => {
+  if (!a || !b) return a || b;
+  return parseTimestampToSeconds(a) >= parseTimestampToSeconds(b) ? a : b;
+};
+
+const dedupeIssues = (issues: Issue[], toleranceSeconds: number): Issue[] => {
+  const sorted = [...issues].sort((a, b) => parseTimestampToSeconds(a.timestamp) - parseTimestampToSeconds(b.timestamp));
+  const kept: Issue[] = [];
+
+  for (const issue of sorted) {
+    const matchIndex = kept.findIndex(existing => isDuplicateIssue(existing, issue, toleranceSeconds));
+    if (matchIndex === -1) {
+      kept.push(issue);
+      continue;
+    }
+    const existing = kept[matchIndex];
+    const moreSevere = SEVERITY_RANK[issue.severity] < SEVERITY_RANK[existing.severity] ? issue : existing;
+    kept[matchIndex] = {
+      ...issue,
+      ...existing,
+      severity: moreSevere.severity,
+      found: existing.found || issue.found,
+      shouldBe: existing.shouldBe || issue.shouldBe,
+      impact: existing.impact || issue.impact,
+      evidence: existing.evidence || issue.evidence,
+      endTimestamp: latestEnd(existing.endTimestamp, issue.endTimestamp),
+      // Seen by two overlapping segments: keep the more certain reading
+      confidence: existing.confidence === undefined ? issue.confidence
+        : issue.confidence === undefined ? existing.confidence
+        : Math.max(existing.confidence, issue.confidence)
+    };
+  }
+
+  return kept;
+};
+
 // --- Helper: Merge Chunked Results ---
-const mergeAnalysisResults = (results: AnalysisResult[], duration: string): AnalysisResult => {
-  if (results.length === 1) return { ...results[0], duration };
+const mergeAnalysisResults = (
+  results: AnalysisResult[],
+  duration: string,
+  dedupeToleranceSeconds: number = DEFAULT_DEDUPE_TOLERANCE_SECONDS
+): AnalysisResult => {
+  if (results.length === 1) return { ...results[0], duration, issues: finalizeIssues(results[0].issues) };
 
   const first = results[0];
   const last = results[results.length - 1];
@@ -383,11 +955,18 @@ const mergeAnalysisResults = (results: AnalysisResult[], duration: string): Anal
   // Merge Issues
   const allIssues: Issue[] = results.flatMap(r => r.issues || []);
   
-  // Deduplicate issues by timestamp/description to be safe
-  const uniqueIssues = Array.from(new Map(allIssues.map(item => [item.timestamp + item.description, item])).values());
+  // Deduplicate issues reported by more than one (overlapping) segment
+  const dedupedIssues = dedupeIssues(allIssues, dedupeToleranceSeconds);
   
   // Sort issues by time
-  uniqueIssues.sort((a, b) => parseTimestampToSeconds(a.timestamp) - parseTimestampToSeconds(b.timestamp));
+  dedupedIssues.sort((a, b) => parseTimestampToSeconds(a.timestamp) - parseTimestampToSeconds(b.timestamp));
+
+  // Re-derive IDs after merging so they stay unique across segments
+  const uniqueIssues = finalizeIssues(dedupedIssues);
+
+  // Segments transcribe disjoint windows, so lines only need ordering
+  const transcript = results.flatMap(r => r.transcript || []);
+  transcript.sort((a, b) => parseTimestampToSeconds(a.start) - parseTimestampToSeconds(b.start));
 
   // Average Scores
   const validScores = results.map(r => r.score).filter(s => typeof s === 'number');
@@ -423,6 +1002,9 @@ const mergeAnalysisResults = (results: AnalysisResult[], duration: string): Anal
       ctaFeedback: last.marketing?.ctaFeedback || "No CTA data found",
       retentionCurve: combinedCurve
     },
-    platformFit: first.platformFit // Assume platform fit applies to whole video
+    platformFit: first.platformFit, // Assume platform fit applies to whole video
+    ...(transcript.length > 0 ? { transcript } : {}),
+    validationWarnings: results.flatMap(r => r.validationWarnings || []),
+    notices: results.flatMap(r => r.notices || [])
   };
 };
\ No newline at end of file
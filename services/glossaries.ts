@@ -0,0 +1,163 @@
+import { normalizeText, tokenize } from './textSimilarity';
+import { SUBJECTS, Subject } from './subjects';
+
+// --- Subject Glossaries ---
+// Reference vocabulary per subject: sent to the model so correct technical terms and Hinglish
+// transliterations are not flagged, and used afterwards to drop spelling issues it flags anyway.
+
+export interface GlossaryTerm {
+  term: string;
+  variants: string[]; // Other accepted spellings, e.g. transliterations
+  note?: string;
+}
+
+export type Glossaries = Record<Subject, GlossaryTerm[]>;
+
+const GLOSSARIES_KEY = 'pw_glossaries';
+
+// Keeps the prompt bounded for very large imported glossaries
+export const MAX_PROMPT_TERMS = 300;
+
+const seed = (term: string, ...variants: string[]): GlossaryTerm => ({ term, variants });
+
+export const DEFAULT_GLOSSARIES: Glossaries = {
+  physics: [
+    seed("Bernoulli"), seed("Coulomb"), seed("Kirchhoff"), seed("Faraday"), seed("Lenz"),
+    seed("Doppler"), seed("Huygens"), seed("Planck"), seed("de Broglie"), seed("Schrödinger", "Schrodinger"),
+    seed("Newton", "Nyuton"), seed("momentum"), seed("torque"), seed("capacitance"), seed("inductance"),
+    seed("vidyut dhara", "vidyut-dhara"), seed("bal", "baal"), seed("sanveg", "samveg")
+  ],
+  chemistry: [
+    seed("Avogadro"), seed("Le Chatelier", "Le Châtelier"), seed("Markovnikov", "Markownikoff"), seed("Hückel", "Huckel"),
+    seed("Aufbau"), seed("Hund"), seed("Pauli"), seed("stoichiometry"), seed("enthalpy"), seed("entropy"),
+    seed("electronegativity"), seed("hybridisation", "hybridization"), seed("mole"), seed("anu"), seed("parmanu")
+  ],
+  maths: [
+    seed("Pythagoras"), seed("Euler"), seed("L'Hôpital", "L'Hospital", "L Hospital"), seed("Rolle"), seed("Lagrange"),
+    seed("Cauchy"), seed("Riemann"), seed("integral"), seed("derivative"), seed("determinant"), seed("parabola"),
+    seed("hyperbola"), seed("samikaran"), seed("avkalan"), seed("samakalan")
+  ],
+  biology: [
+    seed("Mendel"), seed("Darwin"), seed("mitochondria"), seed("chloroplast"), seed("cytoplasm"), seed("meiosis"),
+    seed("mitosis"), seed("photosynthesis"), seed("deoxyribonucleic"), seed("Krebs"), seed("Calvin"),
+    seed("kosh", "kosika"), seed("gunsutra")
+  ]
+};
+
+const normalizeTerm = (raw: any): GlossaryTerm | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const term = typeof raw.term === 'string' ? raw.term.trim() : '';
+  if (!term) return null;
+  const variants = Array.isArray(raw.variants) ? raw.variants.map((v: unknown) => String(v).trim()).filter(Boolean) : [];
+  const note = typeof raw.note === 'string' && raw.note.trim() ? raw.note.trim() : undefined;
+  return { term, variants, ...(note ? { note } : {}) };
+};
+
+export const loadGlossaries = (): Glossaries => {
+  const glossaries: Glossaries = { ...DEFAULT_GLOSSARIES };
+  try {
+    const stored = JSON.parse(localStorage.getItem(GLOSSARIES_KEY) || 'null');
+    if (stored && typeof stored === 'object') {
+      SUBJECTS.forEach(({ id }) => {
+        if (Array.isArray(stored[id])) {
+          glossaries[id] = stored[id].map(normalizeTerm).filter((t: GlossaryTerm | null): t is GlossaryTerm => !!t);
+        }
+      });
+    }
+  } catch (e) {
+    console.error("Glossary parsing failed", e);
+  }
+  return glossaries;
+};
+
+export const saveGlossaries = (glossaries: Glossaries) => {
+  localStorage.setItem(GLOSSARIES_KEY, JSON.stringify(glossaries));
+};
+
+// --- CSV ---
+
+// Splits one CSV line, honouring double-quoted fields with "" escapes
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') { current += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else current += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+  return fields.map(f => f.trim());
+};
+
+const escapeCsv = (value: string): string =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Parses `term,variants,note` rows (variants separated by "|"). A header row is optional.
+ */
+export const parseGlossaryCsv = (csv: string): GlossaryTerm[] => {
+  const rows = csv.split(/\r?\n/).filter(line => line.trim()).map(splitCsvLine);
+  if (rows.length > 0 && rows[0][0].toLowerCase() === 'term') rows.shift();
+  const terms = rows
+    .filter(row => row[0])
+    .map(([term, variants = '', note = '']) => ({
+      term,
+      variants: variants.split('|').map(v => v.trim()).filter(Boolean),
+      ...(note ? { note } : {})
+    }));
+  if (terms.length === 0) throw new Error("No glossary terms found in file.");
+  return terms;
+};
+
+export const exportGlossaryCsv = (terms: GlossaryTerm[]): string =>
+  ['term,variants,note', ...terms.map(t => [t.term, t.variants.join('|'), t.note || ''].map(escapeCsv).join(','))].join('\n');
+
+/**
+ * Adds imported terms, merging variants into existing entries with the same term.
+ */
+export const mergeGlossaryTerms = (existing: GlossaryTerm[], incoming: GlossaryTerm[]): GlossaryTerm[] => {
+  const byTerm = new Map(existing.map(t => [normalizeText(t.term), { ...t, variants: [...t.variants] }]));
+  incoming.forEach(t => {
+    const key = normalizeText(t.term);
+    const current = byTerm.get(key);
+    if (!current) {
+      byTerm.set(key, t);
+      return;
+    }
+    t.variants.forEach(v => { if (!current.variants.includes(v)) current.variants.push(v); });
+    if (t.note) current.note = t.note;
+  });
+  return Array.from(byTerm.values());
+};
+
+// --- Matching ---
+
+export const buildAllowlist = (terms: GlossaryTerm[]): Set<string> => {
+  const allowlist = new Set<string>();
+  terms.forEach(t => [t.term, ...t.variants].forEach(word => {
+    const normalized = normalizeText(word);
+    if (normalized) allowlist.add(normalized);
+  }));
+  return allowlist;
+};
+
+/**
+ * True when `found` is a glossary term as a whole, or every word in it is.
+ */
+export const isAllowlisted = (found: string | undefined, allowlist: Set<string>): boolean => {
+  if (!found || allowlist.size === 0) return false;
+  if (allowlist.has(normalizeText(found))) return true;
+  const words = tokenize(found);
+  return words.length > 0 && words.every(word => allowlist.has(word));
+};
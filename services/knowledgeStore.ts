@@ -0,0 +1,185 @@
+import { Issue } from '../types';
+import { GlossaryTerm } from './glossaries';
+import { STORES, idbDelete, idbGet, idbGetAll, idbPut } from './localDb';
+import { normalizeText, tokenize } from './textSimilarity';
+
+// --- Channel Knowledge Store ---
+// Past findings, accepted corrections, intended-usage notes and glossary terms, kept per channel
+// profile in IndexedDB. Retrieval is a BM25 keyword ranking over each snippet's terms: cheap enough to run
+// in the browser on every analysis, and good enough to surface the notes that share vocabulary
+// with the video's title.
+
+export type KnowledgeKind = 'finding' | 'correction' | 'intended' | 'glossary';
+
+export interface KnowledgeSnippet {
+  id: string; // `${channelId}:${kind}:${key}`
+  channelId: string;
+  kind: KnowledgeKind;
+  text: string;
+  terms: string[]; // Pre-tokenized `text` for the keyword index
+  sourceTitle: string;
+  createdAt: number;
+}
+
+const MAX_FINDINGS_PER_CHANNEL = 500;
+const DEFAULT_RETRIEVAL_LIMIT = 8;
+
+// BM25 parameters (standard defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// What the user told us outranks what the model found on its own
+const KIND_BOOST: Record<KnowledgeKind, number> = {
+  intended: 1.5,
+  glossary: 1.3,
+  correction: 1.2,
+  finding: 1
+};
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on',
+  'or', 'the', 'this', 'to', 'was', 'with', 'video', 'lecture', 'part', 'class', 'chapter'
+]);
+
+const toTerms = (text: string): string[] =>
+  tokenize(text).filter(term => term.length > 1 && !STOPWORDS.has(term));
+
+const describeIssue = (issue: Issue): string => {
+  const change = issue.found && issue.shouldBe ? ` ("${issue.found}" -> "${issue.shouldBe}")` : issue.found ? ` ("${issue.found}")` : '';
+  return `${issue.description}${change}`;
+};
+
+const buildSnippet = (channelId: string, kind: KnowledgeKind, key: string, text: string, sourceTitle: string): KnowledgeSnippet => ({
+  id: `${channelId}:${kind}:${key}`,
+  channelId,
+  kind,
+  text,
+  // A glossary's source is its subject, which every query names; indexing it would match every term
+  terms: toTerms(kind === 'glossary' ? text : `${text} ${sourceTitle}`),
+  sourceTitle,
+  createdAt: Date.now()
+});
+
+const loadChannelSnippets = async (channelId: string): Promise<KnowledgeSnippet[]> => {
+  const all = await idbGetAll<KnowledgeSnippet>(STORES.knowledge);
+  return all.filter(snippet => snippet.channelId === channelId);
+};
+
+/**
+ * Stores a finished analysis' issues as prior findings for the channel. Issue IDs are
+ * content-derived, so re-analysing the same video updates entries instead of duplicating them.
+ * Findings the verification pass refuted, or that the team marked intended, are not stored.
+ * The oldest findings are pruned once the channel exceeds its cap.
+ */
+export const indexAnalysisFindings = async (channelId: string, sourceTitle: string, issues: Issue[]): Promise<void> => {
+  try {
+    for (const issue of issues) {
+      if (issue.verification?.verdict === 'refuted') continue;
+      if (await idbGet(STORES.knowledge, `${channelId}:intended:${issue.id}`)) continue;
+      await idbPut(STORES.knowledge, buildSnippet(channelId, 'finding', issue.id, `[${issue.type}] ${describeIssue(issue)}`, sourceTitle));
+    }
+    const findings = (await loadChannelSnippets(channelId))
+      .filter(snippet => snippet.kind === 'finding')
+      .sort((a, b) => b.createdAt - a.createdAt);
+    for (const stale of findings.slice(MAX_FINDINGS_PER_CHANNEL)) {
+      await idbDelete(STORES.knowledge, stale.id);
+    }
+  } catch (error) {
+    console.warn("Failed to index analysis findings:", error);
+  }
+};
+
+/**
+ * Records that the team accepted (fixed) an issue, so the same mistake is watched for next time.
+ */
+export const recordCorrection = async (channelId: string, sourceTitle: string, issue: Issue): Promise<void> => {
+  try {
+    await idbPut(STORES.knowledge, buildSnippet(channelId, 'correction', issue.id, `Recurring mistake: ${describeIssue(issue)}`, sourceTitle));
+  } catch (error) {
+    console.warn("Failed to record correction:", error);
+  }
+};
+
+/**
+ * Records that a flagged item is deliberate (e.g. a teacher's own terminology) and should not be reported.
+ */
+export const recordIntendedUsage = async (channelId: string, sourceTitle: string, issue: Issue): Promise<void> => {
+  try {
+    const subject = issue.found ? `"${issue.found}"` : issue.description;
+    await idbPut(STORES.knowledge, buildSnippet(channelId, 'intended', issue.id, `Intended, do not flag: ${subject} (${issue.type})`, sourceTitle));
+    // It is no longer a finding for this channel
+    await idbDelete(STORES.knowledge, `${channelId}:finding:${issue.id}`);
+  } catch (error) {
+    console.warn("Failed to record intended usage:", error);
+  }
+};
+
+/**
+ * Mirrors a subject glossary into the channel's snippets so terms beyond the prompt's glossary
+ * cap can still be retrieved when the title mentions them. Terms since removed from the
+ * glossary are dropped.
+ */
+export const indexGlossary = async (channelId: string, subjectLabel: string, terms: GlossaryTerm[]): Promise<void> => {
+  try {
+    const keys = new Set<string>();
+    for (const { term, variants, note } of terms) {
+      const key = `${subjectLabel}:${normalizeText(term)}`;
+      if (keys.has(key)) continue;
+      keys.add(key);
+      const also = variants.length > 0 ? ` (also written ${variants.join(', ')})` : '';
+      await idbPut(STORES.knowledge, buildSnippet(channelId, 'glossary', key, `${term}${also}${note ? ` - ${note}` : ''}`, subjectLabel));
+    }
+    const stale = (await loadChannelSnippets(channelId))
+      .filter(snippet => snippet.kind === 'glossary' && snippet.sourceTitle === subjectLabel && !keys.has(snippet.id.slice(`${channelId}:glossary:`.length)));
+    for (const snippet of stale) {
+      await idbDelete(STORES.knowledge, snippet.id);
+    }
+  } catch (error) {
+    console.warn("Failed to index glossary:", error);
+  }
+};
+
+/**
+ * Top snippets for a query, ranked by BM25 over the channel's snippets. Returns an empty list
+ * (never throws) when nothing matches or storage is unavailable.
+ */
+export const retrieveKnowledge = async (
+  channelId: string,
+  query: string,
+  limit: number = DEFAULT_RETRIEVAL_LIMIT
+): Promise<KnowledgeSnippet[]> => {
+  try {
+    const queryTerms = Array.from(new Set(toTerms(query)));
+    if (queryTerms.length === 0) return [];
+    const snippets = await loadChannelSnippets(channelId);
+    if (snippets.length === 0) return [];
+
+    const avgLength = snippets.reduce((sum, s) => sum + s.terms.length, 0) / snippets.length || 1;
+    const documentFrequency = new Map<string, number>();
+    snippets.forEach(snippet => {
+      new Set(snippet.terms).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+    });
+
+    const scored = snippets.map(snippet => {
+      let score = 0;
+      queryTerms.forEach(term => {
+        const df = documentFrequency.get(term);
+        if (!df) return;
+        const tf = snippet.terms.filter(t => t === term).length;
+        if (tf === 0) return;
+        const idf = Math.log(1 + (snippets.length - df + 0.5) / (df + 0.5));
+        score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * snippet.terms.length / avgLength));
+      });
+      return { snippet, score: score * KIND_BOOST[snippet.kind] };
+    });
+
+    return scored
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score || b.snippet.createdAt - a.snippet.createdAt)
+      .slice(0, limit)
+      .map(({ snippet }) => snippet);
+  } catch (error) {
+    console.warn("Failed to retrieve channel knowledge:", error);
+    return [];
+  }
+};
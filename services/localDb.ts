@@ -0,0 +1,67 @@
+// --- IndexedDB Helpers ---
+// Minimal promise wrapper around the browser's IndexedDB. Every store the app needs is
+// declared here so the schema upgrades in one place.
+
+const DB_NAME = 'pw_proofvision';
+const DB_VERSION = 3;
+
+export const STORES = {
+  checkpoints: 'checkpoints',
+  uploads: 'uploads',
+  knowledge: 'knowledge'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this browser"));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.values(STORES).forEach(store => {
+        if (!db.objectStoreNames.contains(store)) db.createObjectStore(store, { keyPath: 'id' });
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Allow a retry after a failed open (e.g. private mode quota errors)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  action: (objectStore: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = action(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const idbGet = <T>(store: StoreName, id: string): Promise<T | undefined> =>
+  runRequest<T | undefined>(store, 'readonly', s => s.get(id));
+
+export const idbGetAll = <T>(store: StoreName): Promise<T[]> =>
+  runRequest<T[]>(store, 'readonly', s => s.getAll());
+
+export const idbPut = async <T extends { id: string }>(store: StoreName, value: T): Promise<void> => {
+  await runRequest(store, 'readwrite', s => s.put(value));
+};
+
+export const idbDelete = async (store: StoreName, id: string): Promise<void> => {
+  await runRequest(store, 'readwrite', s => s.delete(id));
+};
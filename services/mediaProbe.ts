@@ -0,0 +1,255 @@
+import { MediaInfo } from '../types';
+
+// --- Local Media Probe ---
+// Measures the technical properties of the selected file in the browser, without uploading it.
+// Dimensions, duration and audio presence come from a hidden <video> element; container,
+// codecs and frame rate are read from the MP4/MOV box structure (only the header boxes and
+// `moov` are read, never the media data). Other containers report what the element can tell.
+
+const MAX_MOOV_BYTES = 64 * 1024 * 1024;
+const METADATA_TIMEOUT_MS = 15000;
+
+// Common ratios, tried before falling back to the reduced fraction
+const NAMED_RATIOS: [string, number][] = [
+  ['16:9', 16 / 9],
+  ['9:16', 9 / 16],
+  ['4:3', 4 / 3],
+  ['3:4', 3 / 4],
+  ['1:1', 1],
+  ['4:5', 4 / 5],
+  ['5:4', 5 / 4],
+  ['21:9', 21 / 9],
+  ['1.91:1', 1.91]
+];
+const RATIO_TOLERANCE = 0.02;
+
+const CODEC_NAMES: Record<string, string> = {
+  avc1: 'H.264', avc3: 'H.264',
+  hvc1: 'H.265', hev1: 'H.265',
+  av01: 'AV1',
+  vp08: 'VP8', vp09: 'VP9',
+  mp4v: 'MPEG-4 Visual',
+  apcn: 'ProRes', apch: 'ProRes', apcs: 'ProRes', apco: 'ProRes', ap4h: 'ProRes',
+  mp4a: 'AAC',
+  'ac-3': 'AC-3', 'ec-3': 'E-AC-3',
+  opus: 'Opus', Opus: 'Opus',
+  lpcm: 'PCM', sowt: 'PCM', twos: 'PCM'
+};
+
+const gcd = (a: number, b: number): number => b === 0 ? a : gcd(b, a % b);
+
+/**
+ * "16:9" style label for a frame size; near-misses (e.g. 1366x768) snap to the named ratio.
+ */
+export const describeAspectRatio = (width: number, height: number): string => {
+  if (!width || !height) return 'Unknown';
+  const ratio = width / height;
+  const named = NAMED_RATIOS.find(([, value]) => Math.abs(ratio - value) / value <= RATIO_TOLERANCE);
+  if (named) return named[0];
+  const divisor = gcd(width, height);
+  return `${width / divisor}:${height / divisor}`;
+};
+
+// --- ISO BMFF (MP4 / MOV) ---
+
+interface Box {
+  type: string;
+  start: number; // Offset of the payload within the buffer
+  end: number;
+}
+
+const readType = (view: DataView, offset: number) =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+const readBoxes = (view: DataView, start: number, end: number): Box[] => {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = readType(view, offset + 4);
+    let header = 8;
+    if (size === 1 && offset + 16 <= end) {
+      size = Number(view.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) break;
+    boxes.push({ type, start: offset + header, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+};
+
+const findBox = (view: DataView, parent: Box, path: string[]): Box | undefined => {
+  let current: Box | undefined = parent;
+  for (const type of path) {
+    current = readBoxes(view, current.start, current.end).find(b => b.type === type);
+    if (!current) return undefined;
+  }
+  return current;
+};
+
+interface TrackInfo {
+  handler: string; // 'vide' | 'soun' | ...
+  codec?: string;
+  sampleCount: number;
+  durationSeconds: number;
+}
+
+const readTrack = (view: DataView, trak: Box): TrackInfo | null => {
+  const mdia = findBox(view, trak, ['mdia']);
+  if (!mdia) return null;
+  const hdlr = findBox(view, mdia, ['hdlr']);
+  const mdhd = findBox(view, mdia, ['mdhd']);
+  const stbl = findBox(view, mdia, ['minf', 'stbl']);
+  if (!hdlr || !mdhd || !stbl) return null;
+
+  const handler = readType(view, hdlr.start + 8);
+
+  // mdhd v1 uses 64-bit times
+  const version = view.getUint8(mdhd.start);
+  const timescale = view.getUint32(mdhd.start + (version === 1 ? 20 : 12));
+  const duration = version === 1
+    ? Number(view.getBigUint64(mdhd.start + 24))
+    : view.getUint32(mdhd.start + 16);
+
+  const stsd = findBox(view, stbl, ['stsd']);
+  const fourcc = stsd && view.getUint32(stsd.start + 4) > 0 ? readType(view, stsd.start + 12) : undefined;
+
+  let sampleCount = 0;
+  const stts = findBox(view, stbl, ['stts']);
+  if (stts) {
+    const entries = view.getUint32(stts.start + 4);
+    for (let i = 0; i < entries && stts.start + 16 + i * 8 <= stts.end; i++) {
+      sampleCount += view.getUint32(stts.start + 8 + i * 8);
+    }
+  }
+
+  return {
+    handler,
+    codec: fourcc ? CODEC_NAMES[fourcc] || fourcc.trim() : undefined,
+    sampleCount,
+    durationSeconds: timescale > 0 ? duration / timescale : 0
+  };
+};
+
+const readSlice = async (file: File, start: number, end: number): Promise<DataView> =>
+  new DataView(await file.slice(start, end).arrayBuffer());
+
+/**
+ * Walks the top-level boxes with small reads, then parses `moov` wherever it sits
+ * (start for fast-start files, end for camera originals).
+ */
+const probeIsoBmff = async (file: File): Promise<Partial<MediaInfo> | null> => {
+  let offset = 0;
+  let brand: string | undefined;
+  while (offset + 8 <= file.size) {
+    const header = await readSlice(file, offset, Math.min(offset + 16, file.size));
+    let size = header.getUint32(0);
+    const type = readType(header, 4);
+    if (size === 1 && header.byteLength >= 16) size = Number(header.getBigUint64(8));
+    else if (size === 0) size = file.size - offset;
+    if (size < 8) return null;
+
+    if (type === 'ftyp') {
+      brand = readType(await readSlice(file, offset + 8, offset + 12), 0);
+    } else if (type === 'moov') {
+      if (size > MAX_MOOV_BYTES) return null;
+      const view = await readSlice(file, offset, offset + size);
+      const moov: Box = { type, start: 8, end: view.byteLength };
+      const tracks = readBoxes(view, moov.start, moov.end)
+        .filter(b => b.type === 'trak')
+        .map(trak => readTrack(view, trak))
+        .filter((t): t is TrackInfo => !!t);
+      const video = tracks.find(t => t.handler === 'vide');
+      const audio = tracks.find(t => t.handler === 'soun');
+      return {
+        container: brand === 'qt  ' ? 'MOV' : 'MP4',
+        videoCodec: video?.codec,
+        audioCodec: audio?.codec,
+        frameRate: video && video.durationSeconds > 0 ? Math.round(video.sampleCount / video.durationSeconds * 100) / 100 : undefined,
+        hasAudio: !!audio
+      };
+    }
+    offset += size;
+  }
+  return brand ? { container: brand === 'qt  ' ? 'MOV' : 'MP4' } : null;
+};
+
+const sniffContainer = async (file: File): Promise<string> => {
+  const head = await readSlice(file, 0, Math.min(12, file.size));
+  if (head.byteLength >= 4 && head.getUint32(0) === 0x1A45DFA3) return file.name.toLowerCase().endsWith('.mkv') ? 'Matroska' : 'WebM';
+  if (head.byteLength >= 4 && readType(head, 0) === 'OggS') return 'Ogg';
+  if (head.byteLength >= 8 && readType(head, 4) === 'ftyp') return 'MP4';
+  return file.type || 'Unknown';
+};
+
+// --- <video> element ---
+
+interface ElementInfo {
+  width: number;
+  height: number;
+  durationSeconds: number;
+  hasAudio: boolean | null;
+}
+
+const probeElement = (file: File): Promise<ElementInfo> => new Promise((resolve, reject) => {
+  const video = document.createElement('video');
+  const url = URL.createObjectURL(file);
+  const cleanup = () => {
+    clearTimeout(timer);
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  };
+  const timer = setTimeout(() => { cleanup(); reject(new Error("Timed out reading video metadata")); }, METADATA_TIMEOUT_MS);
+
+  video.preload = 'metadata';
+  video.muted = true;
+  video.onloadedmetadata = () => {
+    // Only some engines expose audio presence before playback
+    const element = video as HTMLVideoElement & { mozHasAudio?: boolean; audioTracks?: { length: number } };
+    const hasAudio = element.audioTracks ? element.audioTracks.length > 0
+      : element.mozHasAudio !== undefined ? element.mozHasAudio
+      : null;
+    const info = {
+      width: video.videoWidth,
+      height: video.videoHeight,
+      durationSeconds: Number.isFinite(video.duration) ? video.duration : 0,
+      hasAudio
+    };
+    cleanup();
+    resolve(info);
+  };
+  video.onerror = () => { cleanup(); reject(new Error("This browser cannot read the video's metadata")); };
+  video.src = url;
+});
+
+/**
+ * Measures a local video file. Never uploads anything; throws only if the browser cannot
+ * read the file at all.
+ */
+export const probeMedia = async (file: File): Promise<MediaInfo> => {
+  const element = await probeElement(file);
+  let box: Partial<MediaInfo> | null = null;
+  try {
+    box = await probeIsoBmff(file);
+  } catch (error) {
+    // Damaged or unusual box layout: fall back to what the element reported
+    console.warn("MP4 box parsing failed:", error);
+  }
+
+  return {
+    width: element.width,
+    height: element.height,
+    aspectRatio: describeAspectRatio(element.width, element.height),
+    durationSeconds: element.durationSeconds,
+    frameRate: box?.frameRate,
+    container: box?.container || await sniffContainer(file),
+    videoCodec: box?.videoCodec,
+    audioCodec: box?.audioCodec,
+    hasAudio: box?.hasAudio ?? element.hasAudio,
+    fileSize: file.size
+  };
+};
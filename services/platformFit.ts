@@ -0,0 +1,86 @@
+import { Issue, MediaInfo, PlatformFit, TextRegion } from '../types';
+import { PlatformProfile, SafeZone } from './platformProfiles';
+
+// --- Deterministic Platform Fit ---
+// Aspect ratio and duration are facts about the file, so they are measured against the
+// platform profile rather than asked of the model. The model's answer is kept only when the
+// file could not be measured.
+
+export interface MeasuredFit {
+  aspectRatio: boolean;
+  duration: boolean;
+  notes: string[]; // Why a measured check failed, e.g. "16:9 is not accepted for YouTube Shorts (9:16, 1:1)"
+}
+
+export const computePlatformFit = (media: MediaInfo, profile: PlatformProfile): MeasuredFit => {
+  const notes: string[] = [];
+
+  const aspectRatio = profile.aspectRatios.includes(media.aspectRatio);
+  if (!aspectRatio) notes.push(`${media.aspectRatio} is not accepted for ${profile.label} (${profile.aspectRatios.join(', ')}).`);
+
+  const seconds = Math.round(media.durationSeconds);
+  const duration = seconds >= profile.minDurationSeconds && seconds <= profile.maxDurationSeconds;
+  if (!duration) notes.push(`${seconds}s is outside ${profile.label}'s ${profile.minDurationSeconds}-${profile.maxDurationSeconds}s limit.`);
+
+  return { aspectRatio, duration, notes };
+};
+
+/**
+ * Replaces the model's aspect-ratio/duration guesses with measured values and records a
+ * notice wherever the two disagreed.
+ */
+export const applyMeasuredFit = (fit: PlatformFit, media: MediaInfo, profile: PlatformProfile): { fit: PlatformFit; notices: string[] } => {
+  const measured = computePlatformFit(media, profile);
+  const notices: string[] = [];
+  if (fit.aspectRatio !== measured.aspectRatio) {
+    notices.push(`Model judged the aspect ratio ${fit.aspectRatio ? 'suitable' : 'unsuitable'}; the file measures ${media.aspectRatio} (${media.width}x${media.height}), which is ${measured.aspectRatio ? 'suitable' : 'unsuitable'}. Measured value used.`);
+  }
+  if (fit.duration !== measured.duration) {
+    notices.push(`Model judged the duration ${fit.duration ? 'suitable' : 'unsuitable'}; the file measures ${Math.round(media.durationSeconds)}s. Measured value used.`);
+  }
+  return {
+    fit: { ...fit, platform: profile.id, aspectRatio: measured.aspectRatio, duration: measured.duration },
+    notices
+  };
+};
+
+/**
+ * Sides of the safe zone a text box reaches into, e.g. ['bottom', 'right']; empty when it fits.
+ */
+export const getSafeZoneOverlaps = (region: TextRegion, safeZone: SafeZone): (keyof SafeZone)[] => {
+  const overlaps: (keyof SafeZone)[] = [];
+  if (region.y < safeZone.top) overlaps.push('top');
+  if (region.y + region.height > 100 - safeZone.bottom) overlaps.push('bottom');
+  if (region.x < safeZone.left) overlaps.push('left');
+  if (region.x + region.width > 100 - safeZone.right) overlaps.push('right');
+  return overlaps;
+};
+
+/**
+ * Re-checks the findings of the 'safe-zone' check against the profile's margins: boxes that
+ * fit are dropped, boxes that overlap get the covered sides spelled out. Platforms without
+ * safe-zone margins have no UI over the video, so all such findings are dropped there.
+ */
+export const checkSafeZoneIssues = <T extends Pick<Issue, 'timestamp' | 'checkId' | 'shouldBe' | 'textRegion'>>(
+  issues: T[],
+  profile: PlatformProfile
+): { issues: T[]; notices: string[] } => {
+  const { safeZone } = profile;
+  if (!safeZone) {
+    const kept = issues.filter(issue => issue.checkId !== 'safe-zone');
+    const dropped = issues.length - kept.length;
+    return { issues: kept, notices: dropped > 0 ? [`${dropped} safe-zone issue(s) dropped: ${profile.label} does not overlay its UI on the video.`] : [] };
+  }
+  const notices: string[] = [];
+  const kept = issues.flatMap(issue => {
+    if (issue.checkId !== 'safe-zone' || !issue.textRegion) return [issue];
+    const overlaps = getSafeZoneOverlaps(issue.textRegion, safeZone);
+    if (overlaps.length === 0) {
+      notices.push(`Safe-zone issue at ${issue.timestamp} dropped: its text box lies inside ${profile.label}'s safe zone.`);
+      return [];
+    }
+    const margins = overlaps.map(side => `${side} ${safeZone[side]}%`).join(', ');
+    return [{ ...issue, shouldBe: issue.shouldBe || `Move the text clear of the ${margins} covered by the ${profile.label} UI` }];
+  });
+  return { issues: kept, notices };
+};
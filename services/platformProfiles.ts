@@ -0,0 +1,204 @@
+import { PlatformId } from '../types';
+
+// --- Platform Profiles ---
+// One rule set per target platform, used both in the prompt and by the deterministic fit
+// checks (services/platformFit). Teams can override any rule; overrides live in localStorage
+// and are merged over the built-in profile on read.
+
+export type CaptionExpectation = 'required' | 'recommended' | 'optional';
+
+export interface SafeZone {
+  top: number; // % of frame height covered by the app UI
+  bottom: number;
+  left: number; // % of frame width
+  right: number;
+}
+
+export interface ThumbnailRule {
+  custom: boolean; // Whether a custom thumbnail/cover can be uploaded
+  aspectRatio: string;
+  notes: string;
+}
+
+export interface PlatformProfile {
+  id: PlatformId;
+  label: string;
+  network: 'youtube' | 'instagram' | 'linkedin' | 'x'; // Picks the saved channel URL
+  aspectRatios: string[]; // describeAspectRatio() labels, preferred first
+  minDurationSeconds: number;
+  maxDurationSeconds: number;
+  safeZone?: SafeZone; // Only where the app overlays its UI on the video (vertical feeds)
+  captions: CaptionExpectation;
+  thumbnail: ThumbnailRule;
+}
+
+// Fields a user may override
+export type PlatformRules = Omit<PlatformProfile, 'id' | 'label' | 'network'>;
+
+export const PLATFORM_PROFILES: PlatformProfile[] = [
+  {
+    id: 'youtube',
+    label: 'YouTube',
+    network: 'youtube',
+    aspectRatios: ['16:9'],
+    minDurationSeconds: 1,
+    maxDurationSeconds: 12 * 3600,
+    captions: 'recommended',
+    thumbnail: { custom: true, aspectRatio: '16:9', notes: "1280x720 or larger; readable title text; face or result visible at small size" }
+  },
+  {
+    id: 'shorts',
+    label: 'YouTube Shorts',
+    network: 'youtube',
+    aspectRatios: ['9:16', '1:1'],
+    minDurationSeconds: 1,
+    maxDurationSeconds: 180,
+    safeZone: { top: 12, bottom: 25, left: 6, right: 16 },
+    captions: 'recommended',
+    thumbnail: { custom: false, aspectRatio: '9:16', notes: "Cover is picked from a frame; make the opening frame self-explanatory" }
+  },
+  {
+    id: 'reels',
+    label: 'Instagram Reels',
+    network: 'instagram',
+    aspectRatios: ['9:16'],
+    minDurationSeconds: 3,
+    maxDurationSeconds: 180,
+    safeZone: { top: 13, bottom: 22, left: 6, right: 15 },
+    captions: 'recommended',
+    thumbnail: { custom: true, aspectRatio: '9:16', notes: "Cover is cropped to 4:5 in the profile grid; keep the subject centred" }
+  },
+  {
+    id: 'instagram-feed',
+    label: 'Instagram Feed',
+    network: 'instagram',
+    aspectRatios: ['4:5', '1:1', '1.91:1'],
+    minDurationSeconds: 3,
+    maxDurationSeconds: 3600,
+    captions: 'recommended',
+    thumbnail: { custom: true, aspectRatio: '4:5', notes: "Cover is cropped to 1:1 in older grids; avoid text near the edges" }
+  },
+  {
+    id: 'linkedin',
+    label: 'LinkedIn',
+    network: 'linkedin',
+    aspectRatios: ['16:9', '1:1', '4:5', '9:16'],
+    minDurationSeconds: 3,
+    maxDurationSeconds: 15 * 60,
+    captions: 'required',
+    thumbnail: { custom: true, aspectRatio: '16:9', notes: "Plays muted in the feed; the thumbnail should state the topic" }
+  },
+  {
+    id: 'x',
+    label: 'X',
+    network: 'x',
+    aspectRatios: ['16:9', '1:1', '9:16'],
+    minDurationSeconds: 1,
+    maxDurationSeconds: 140,
+    captions: 'recommended',
+    thumbnail: { custom: false, aspectRatio: '16:9', notes: "Autoplays muted; the first second doubles as the thumbnail" }
+  }
+];
+
+export const DEFAULT_PLATFORM_ID: PlatformId = 'youtube';
+
+const OVERRIDES_KEY = 'pw_platform_overrides';
+const LAST_PLATFORM_KEY = 'pw_last_platform';
+
+const getBuiltInProfile = (id: PlatformId): PlatformProfile =>
+  PLATFORM_PROFILES.find(p => p.id === id) || PLATFORM_PROFILES[0];
+
+export const isPlatformId = (value: unknown): value is PlatformId =>
+  PLATFORM_PROFILES.some(p => p.id === value);
+
+/**
+ * Maps labels from older checkpoints and results ("YouTube Shorts", "Reels", ...) onto an id.
+ */
+export const toPlatformId = (value: string | null | undefined): PlatformId => {
+  if (isPlatformId(value)) return value;
+  const lower = (value || '').toLowerCase();
+  if (lower.includes('short')) return 'shorts';
+  if (lower.includes('reel')) return 'reels';
+  if (lower.includes('instagram')) return 'instagram-feed';
+  if (lower.includes('linkedin')) return 'linkedin';
+  if (lower === 'x' || lower.includes('twitter')) return 'x';
+  return 'youtube';
+};
+
+export const loadPlatformOverrides = (): Partial<Record<PlatformId, Partial<PlatformRules>>> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(OVERRIDES_KEY) || '{}');
+    if (stored && typeof stored === 'object' && !Array.isArray(stored)) {
+      return Object.fromEntries(Object.entries(stored).filter(([id]) => isPlatformId(id)));
+    }
+  } catch (e) {
+    console.error("Platform override parsing failed", e);
+  }
+  return {};
+};
+
+/**
+ * Stores only the rules that differ from the built-in profile, so later changes to the
+ * defaults still reach platforms the user never touched.
+ */
+export const savePlatformRules = (id: PlatformId, rules: PlatformRules) => {
+  const builtIn = getBuiltInProfile(id);
+  const diff = Object.fromEntries(
+    (Object.keys(rules) as (keyof PlatformRules)[])
+      .filter(key => JSON.stringify(rules[key]) !== JSON.stringify(builtIn[key]))
+      .map(key => [key, rules[key]])
+  );
+  const overrides = loadPlatformOverrides();
+  if (Object.keys(diff).length > 0) overrides[id] = diff;
+  else delete overrides[id];
+  localStorage.setItem(OVERRIDES_KEY, JSON.stringify(overrides));
+};
+
+export const resetPlatformRules = (id: PlatformId) => {
+  const overrides = loadPlatformOverrides();
+  delete overrides[id];
+  localStorage.setItem(OVERRIDES_KEY, JSON.stringify(overrides));
+};
+
+export const hasPlatformOverride = (id: PlatformId): boolean => !!loadPlatformOverrides()[id];
+
+/**
+ * Built-in profile with the user's overrides applied.
+ */
+export const getPlatformProfile = (id: PlatformId): PlatformProfile => {
+  const builtIn = getBuiltInProfile(id);
+  const override = loadPlatformOverrides()[id] || {};
+  return {
+    ...builtIn,
+    ...override,
+    safeZone: builtIn.safeZone && { ...builtIn.safeZone, ...override.safeZone },
+    thumbnail: { ...builtIn.thumbnail, ...override.thumbnail }
+  };
+};
+
+export const getPlatformLabel = (id: PlatformId): string => getBuiltInProfile(id).label;
+
+export const loadLastPlatform = (): PlatformId => toPlatformId(localStorage.getItem(LAST_PLATFORM_KEY));
+
+export const saveLastPlatform = (id: PlatformId) => localStorage.setItem(LAST_PLATFORM_KEY, id);
+
+const formatLimit = (seconds: number): string =>
+  seconds >= 3600 ? `${Math.round(seconds / 360) / 10}h` : seconds >= 60 ? `${Math.round(seconds / 6) / 10} min` : `${seconds}s`;
+
+/**
+ * TARGET PLATFORM RULES section of the prompt.
+ */
+export const buildPlatformPrompt = (profile: PlatformProfile): string => {
+  const { safeZone, thumbnail } = profile;
+  const lines = [
+    `Accepted aspect ratios: ${profile.aspectRatios.join(', ')}`,
+    `Length: ${formatLimit(profile.minDurationSeconds)} to ${formatLimit(profile.maxDurationSeconds)}`,
+    ...(safeZone ? [`Safe zone: the app UI covers the top ${safeZone.top}%, bottom ${safeZone.bottom}%, left ${safeZone.left}% and right ${safeZone.right}% of the frame; on-screen text must stay inside`] : []),
+    `Captions: ${profile.captions}`,
+    `Thumbnail: ${thumbnail.custom ? `custom ${thumbnail.aspectRatio} upload` : 'taken from a video frame'}; ${thumbnail.notes}`
+  ];
+  return `
+      TARGET PLATFORM RULES (${profile.label}):
+      ${lines.map(line => `- ${line}`).join("\n      ")}
+    `;
+};
@@ -0,0 +1,124 @@
+import { TokenUsage, UsageSummary } from '../types';
+
+// --- Token Pricing ---
+// USD per 1M tokens. Defaults follow the public Gemini price list for prompts up to 200k
+// tokens; teams on other tiers can override any model in Settings.
+
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number; // Includes thinking tokens, which are billed as output
+}
+
+export const DEFAULT_PRICE_TABLE: Record<string, ModelPrice> = {
+  'gemini-3-pro-preview': { inputPerMillion: 2.0, outputPerMillion: 12.0 },
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10.0 },
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'fixture': { inputPerMillion: 0, outputPerMillion: 0 }
+};
+
+// Used for models missing from the table, so estimates err on the expensive side
+const FALLBACK_PRICE: ModelPrice = DEFAULT_PRICE_TABLE['gemini-3-pro-preview'];
+
+// Rough video tokenisation at default media resolution: ~258 tokens per frame at 1 fps plus audio
+const VIDEO_TOKENS_PER_SECOND = 300;
+const PROMPT_OVERHEAD_TOKENS = 1500;
+const EXPECTED_OUTPUT_TOKENS_PER_SEGMENT = 4000;
+const TRANSCRIPT_OUTPUT_TOKENS_PER_MINUTE = 150;
+// Verification re-checks each critical/major finding against a ~30s clip around it
+const EXPECTED_VERIFICATIONS_PER_SEGMENT = 5;
+const VERIFY_CLIP_SECONDS = 30;
+const VERIFY_OUTPUT_TOKENS = 400;
+
+const PRICE_TABLE_KEY = 'pw_price_table';
+
+export const loadPriceTable = (): Record<string, ModelPrice> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRICE_TABLE_KEY) || '{}');
+    return { ...DEFAULT_PRICE_TABLE, ...stored };
+  } catch (e) {
+    return { ...DEFAULT_PRICE_TABLE };
+  }
+};
+
+const samePrice = (a: ModelPrice, b: ModelPrice): boolean =>
+  a.inputPerMillion === b.inputPerMillion && a.outputPerMillion === b.outputPerMillion;
+
+/**
+ * Persists a price override for a single model. A price equal to the built-in default clears
+ * the override, so later updates to the default table still reach that model.
+ */
+export const saveModelPrice = (model: string, price: ModelPrice) => {
+  let stored: Record<string, ModelPrice> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(PRICE_TABLE_KEY) || '{}');
+  } catch (e) {
+    stored = {};
+  }
+  const builtIn = DEFAULT_PRICE_TABLE[model];
+  if (builtIn && samePrice(price, builtIn)) delete stored[model];
+  else stored[model] = price;
+  localStorage.setItem(PRICE_TABLE_KEY, JSON.stringify(stored));
+};
+
+export const getModelPrice = (model: string, table: Record<string, ModelPrice> = loadPriceTable()): ModelPrice =>
+  table[model] || FALLBACK_PRICE;
+
+/**
+ * True when the price differs from what getModelPrice currently returns for the model.
+ */
+export const isPriceChanged = (model: string, price: ModelPrice): boolean =>
+  !samePrice(price, getModelPrice(model));
+
+export const emptyUsage = (model: string): UsageSummary => ({
+  model,
+  promptTokens: 0,
+  outputTokens: 0,
+  totalTokens: 0,
+  estimatedCostUsd: 0
+});
+
+export const priceUsage = (usage: TokenUsage, model: string, price: ModelPrice = getModelPrice(model)): UsageSummary => ({
+  ...usage,
+  model,
+  estimatedCostUsd: (usage.promptTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000
+});
+
+export const addUsage = (a: UsageSummary, b: UsageSummary): UsageSummary => ({
+  model: a.model || b.model,
+  promptTokens: a.promptTokens + b.promptTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+  totalTokens: a.totalTokens + b.totalTokens,
+  estimatedCostUsd: a.estimatedCostUsd + b.estimatedCostUsd
+});
+
+/**
+ * Pre-flight estimate. Every segment request references the whole uploaded file, so each
+ * one is billed for the full video's tokens, not just its own 20-minute window.
+ * Transcript requests are clipped to their window, so together they bill the video once.
+ * Verification requests are clipped too; their number depends on the findings, so a typical
+ * count per segment is assumed.
+ */
+export const estimateAnalysisUsage = (durationSeconds: number, segmentCount: number, transcribe = false, verifyFindings = false): TokenUsage => {
+  const videoTokens = Math.ceil(durationSeconds) * VIDEO_TOKENS_PER_SECOND;
+  let promptTokens = segmentCount * (videoTokens + PROMPT_OVERHEAD_TOKENS);
+  let outputTokens = segmentCount * EXPECTED_OUTPUT_TOKENS_PER_SEGMENT;
+  if (transcribe) {
+    promptTokens += videoTokens + segmentCount * PROMPT_OVERHEAD_TOKENS;
+    outputTokens += Math.ceil(durationSeconds / 60) * TRANSCRIPT_OUTPUT_TOKENS_PER_MINUTE;
+  }
+  if (verifyFindings) {
+    const verifications = segmentCount * EXPECTED_VERIFICATIONS_PER_SEGMENT;
+    promptTokens += verifications * (Math.ceil(Math.min(durationSeconds, VERIFY_CLIP_SECONDS)) * VIDEO_TOKENS_PER_SECOND + PROMPT_OVERHEAD_TOKENS);
+    outputTokens += verifications * VERIFY_OUTPUT_TOKENS;
+  }
+  return { promptTokens, outputTokens, totalTokens: promptTokens + outputTokens };
+};
+
+export const formatCost = (usd: number): string =>
+  usd > 0 && usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
+
+export const formatTokens = (tokens: number): string => {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+};
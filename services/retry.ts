@@ -0,0 +1,86 @@
+// --- Retry & Cancellation Helpers ---
+
+export interface RetryOptions {
+  maxRetries: number;   // Retries after the first attempt
+  baseDelayMs: number;  // Delay before the first retry; doubles on each subsequent retry
+  onRetry?: (attempt: number, delayMs: number, error: any) => void;
+  signal?: AbortSignal; // Stops retrying (and waiting) once aborted
+}
+
+const TRANSIENT_MESSAGE_PATTERNS = [
+  /\b429\b/,
+  /\b(500|502|503|504)\b/, // Named codes only, so numbers like "512 tokens" are not taken for server errors
+  /\bRESOURCE_EXHAUSTED\b/,
+  /\bUNAVAILABLE\b/,
+  /\bINTERNAL\b/,
+  /rate limit/i,
+  /overloaded/i,
+  /Failed to fetch/i,
+  /AI returned text instead of structured data/i,
+  /AI returned malformed structured data/i
+];
+
+/**
+ * True for errors worth retrying: rate limits (429), server errors (5xx),
+ * network blips and the model answering in prose instead of calling the tool.
+ */
+export const isTransientError = (error: any): boolean => {
+  if (isAbortError(error)) return false;
+  const status = error?.status ?? error?.code ?? error?.error?.code;
+  if (typeof status === 'number') {
+    return status === 429 || (status >= 500 && status < 600);
+  }
+  const message = String(error?.message ?? error ?? '');
+  return TRANSIENT_MESSAGE_PATTERNS.some(pattern => pattern.test(message));
+};
+
+// --- Cancellation ---
+
+export const createAbortError = (): Error => {
+  const error = new Error("Analysis cancelled");
+  error.name = 'AbortError';
+  return error;
+};
+
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+/**
+ * setTimeout as a promise; rejects with an AbortError as soon as `signal` fires.
+ */
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(createAbortError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs `fn`, retrying transient failures with exponential backoff and jitter.
+ * Non-transient errors and the final failure are rethrown unchanged.
+ */
+export const withRetry = async <T>(fn: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> => {
+  let attempt = 0;
+  while (true) {
+    throwIfAborted(options.signal);
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (options.signal?.aborted) throw createAbortError();
+      if (attempt >= options.maxRetries || !isTransientError(error)) throw error;
+      attempt++;
+      const delayMs = Math.round(options.baseDelayMs * 2 ** (attempt - 1) * (0.8 + Math.random() * 0.4));
+      if (options.onRetry) options.onRetry(attempt, delayMs, error);
+      await sleep(delayMs, options.signal);
+    }
+  }
+};
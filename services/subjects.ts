@@ -0,0 +1,115 @@
+import { tokenize } from './textSimilarity';
+
+// --- Subjects & Factual Rule Sets ---
+// The subject decides which glossary is used and which factual-check instructions the model
+// gets. Each factual issue records the rule set that produced it (Issue.ruleSet).
+
+export type Subject = 'physics' | 'chemistry' | 'maths' | 'biology';
+
+// 'auto' resolves to a subject from the video title at upload time
+export type SubjectChoice = Subject | 'auto';
+
+export interface SubjectRuleSet {
+  id: string; // Stored on issues; bump the suffix when the instructions change materially
+  subject: Subject;
+  label: string;
+  instructions: string[];
+}
+
+export const SUBJECTS: { id: Subject; label: string }[] = [
+  { id: 'physics', label: 'Physics' },
+  { id: 'chemistry', label: 'Chemistry' },
+  { id: 'maths', label: 'Maths' },
+  { id: 'biology', label: 'Biology' }
+];
+
+export const SUBJECT_RULE_SETS: Record<Subject, SubjectRuleSet> = {
+  physics: {
+    id: 'physics-v1',
+    subject: 'physics',
+    label: 'Physics',
+    instructions: [
+      "Formulas and laws are stated correctly (including signs and vector vs scalar quantities)",
+      "Units are SI-consistent and dimensionally correct on both sides",
+      "Numerical answers use sensible significant figures",
+      "Sign conventions (optics, thermodynamics, electrostatics) are applied consistently"
+    ]
+  },
+  chemistry: {
+    id: 'chemistry-v1',
+    subject: 'chemistry',
+    label: 'Chemistry',
+    instructions: [
+      "Chemical equations are balanced for atoms and charge",
+      "Formulas, oxidation states and IUPAC names are correct",
+      "Reaction conditions, catalysts and products match the stated mechanism",
+      "Units (mol, M, kJ/mol) and significant figures are correct in numericals"
+    ]
+  },
+  maths: {
+    id: 'maths-v1',
+    subject: 'maths',
+    label: 'Maths',
+    instructions: [
+      "Each derivation step follows from the previous one (no dropped terms, sign or algebra slips)",
+      "Domain and validity conditions are stated where needed (division by zero, log of negatives, square roots)",
+      "Standard results and identities are quoted correctly",
+      "Notation is consistent (variables, limits, bracket types)"
+    ]
+  },
+  biology: {
+    id: 'biology-v1',
+    subject: 'biology',
+    label: 'Biology',
+    instructions: [
+      "Binomial nomenclature is correct (Genus capitalised, species lowercase)",
+      "Terminology, processes and sequences (e.g. cell cycle phases) are accurate",
+      "Diagram labels point to the correct structures",
+      "Quantities and units (e.g. chromosome numbers, µm) are correct"
+    ]
+  }
+};
+
+// Title words that point at a subject. Includes common Hinglish/abbreviated forms.
+const SUBJECT_KEYWORDS: Record<Subject, string[]> = {
+  physics: ['physics', 'newton', 'newtons', 'momentum', 'kinematics', 'optics', 'electrostatics', 'magnetism', 'thermodynamics', 'gravitation', 'current', 'waves', 'friction', 'work', 'energy', 'rotational'],
+  chemistry: ['chemistry', 'chem', 'organic', 'inorganic', 'mole', 'stoichiometry', 'equilibrium', 'bonding', 'periodic', 'reaction', 'reactions', 'hydrocarbons', 'electrochemistry', 'redox', 'acids', 'bases'],
+  maths: ['maths', 'math', 'mathematics', 'calculus', 'integration', 'differentiation', 'algebra', 'trigonometry', 'matrices', 'matrix', 'probability', 'vectors', 'limits', 'sequences', 'quadratic', 'geometry'],
+  biology: ['biology', 'bio', 'botany', 'zoology', 'cell', 'genetics', 'evolution', 'photosynthesis', 'respiration', 'plant', 'plants', 'animal', 'human', 'reproduction', 'ecology']
+};
+
+const LAST_SUBJECT_KEY = 'pw_last_subject';
+
+/**
+ * Best-guess subject from a video title, or null when no keyword matches (or it is a tie).
+ */
+export const detectSubject = (title: string): Subject | null => {
+  const words = new Set(tokenize(title));
+  let best: Subject | null = null;
+  let bestScore = 0;
+  let tied = false;
+  SUBJECTS.forEach(({ id }) => {
+    const score = SUBJECT_KEYWORDS[id].filter(keyword => words.has(keyword)).length;
+    if (score > bestScore) {
+      best = id;
+      bestScore = score;
+      tied = false;
+    } else if (score > 0 && score === bestScore) {
+      tied = true;
+    }
+  });
+  return tied ? null : best;
+};
+
+export const resolveSubject = (choice: SubjectChoice, title: string): Subject =>
+  choice === 'auto' ? detectSubject(title) || 'physics' : choice;
+
+export const getSubjectLabel = (subject: Subject): string =>
+  SUBJECTS.find(s => s.id === subject)?.label || subject;
+
+export const loadLastSubject = (): SubjectChoice => {
+  const stored = localStorage.getItem(LAST_SUBJECT_KEY);
+  return stored === 'auto' || SUBJECTS.some(s => s.id === stored) ? stored as SubjectChoice : 'auto';
+};
+
+export const saveLastSubject = (choice: SubjectChoice) => localStorage.setItem(LAST_SUBJECT_KEY, choice);
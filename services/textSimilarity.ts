@@ -0,0 +1,59 @@
+// --- Text Similarity Helpers ---
+// Lightweight, dependency-free fuzzy matching used to compare model-returned text.
+
+/**
+ * Lowercases, strips punctuation (keeping Devanagari and other letters) and collapses whitespace.
+ */
+export const normalizeText = (text: string): string => {
+  if (!text) return '';
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+export const tokenize = (text: string): string[] => {
+  const normalized = normalizeText(text);
+  return normalized ? normalized.split(' ') : [];
+};
+
+/**
+ * Jaccard overlap of the two strings' word sets (0..1).
+ */
+export const jaccardSimilarity = (a: string, b: string): number => {
+  const setA = new Set(tokenize(a));
+  const setB = new Set(tokenize(b));
+  if (setA.size === 0 && setB.size === 0) return 1;
+  if (setA.size === 0 || setB.size === 0) return 0;
+  let intersection = 0;
+  setA.forEach(token => { if (setB.has(token)) intersection++; });
+  return intersection / (setA.size + setB.size - intersection);
+};
+
+/**
+ * 1 - normalized Levenshtein distance (0..1). Good for short strings like typos.
+ */
+export const levenshteinRatio = (a: string, b: string): number => {
+  const s = normalizeText(a);
+  const t = normalizeText(b);
+  if (s === t) return 1;
+  if (!s.length || !t.length) return 0;
+
+  let previous = Array.from({ length: t.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= s.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= t.length; j++) {
+      const cost = s[i - 1] === t[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return 1 - previous[t.length] / Math.max(s.length, t.length);
+};
+
+/**
+ * Best of word-overlap and character-level similarity.
+ */
+export const textSimilarity = (a: string, b: string): number =>
+  Math.max(jaccardSimilarity(a, b), levenshteinRatio(a, b));
@@ -0,0 +1,91 @@
+import { ProviderId } from './analysisProvider';
+import { STORES, idbDelete, idbGet, idbGetAll, idbPut } from './localDb';
+
+// --- Upload Cache ---
+// Remembers which remote file a local video was uploaded as, keyed by a content
+// fingerprint, so re-running analysis on the same lecture can skip the upload.
+
+export interface CachedUpload {
+  id: string; // `${providerId}:${hash}`
+  hash: string;
+  providerId: ProviderId;
+  remoteFileName: string;
+  uri: string;
+  duration: string;
+  expiresAt: number | null; // epoch ms
+  fileName: string;
+  createdAt: number;
+}
+
+const SAMPLE_BYTES = 4 * 1024 * 1024;
+// Remote files are kept for 48h; treat them as gone a little early to avoid racing expiry
+const EXPIRY_MARGIN_MS = 10 * 60 * 1000;
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * SHA-256 fingerprint of a file. Small files are hashed whole; large ones are hashed from
+ * their size plus the first, middle and last 4MB so a 2GB lecture fingerprints in well under
+ * a second instead of being read end to end. Samples alone would collide for a re-export that
+ * only changed the unsampled stretches, so sampled hashes also cover the file's name and
+ * modification time.
+ */
+export const hashFile = async (file: File): Promise<string> => {
+  let parts: Blob[];
+  let identity = '';
+  if (file.size <= SAMPLE_BYTES * 3) {
+    parts = [file];
+  } else {
+    const middle = Math.floor(file.size / 2 - SAMPLE_BYTES / 2);
+    parts = [
+      file.slice(0, SAMPLE_BYTES),
+      file.slice(middle, middle + SAMPLE_BYTES),
+      file.slice(file.size - SAMPLE_BYTES)
+    ];
+    identity = `${file.name}:${file.lastModified}:`;
+  }
+  const header = new TextEncoder().encode(`${file.size}:${file.type}:${identity}`);
+  const body = await new Blob([header, ...parts]).arrayBuffer();
+  return toHex(await crypto.subtle.digest('SHA-256', body));
+};
+
+/**
+ * Cached upload for this content and provider, unless it has (nearly) expired.
+ */
+export const lookupUpload = async (hash: string, providerId: ProviderId): Promise<CachedUpload | null> => {
+  try {
+    const entry = await idbGet<CachedUpload>(STORES.uploads, `${providerId}:${hash}`);
+    if (!entry) return null;
+    if (entry.expiresAt && entry.expiresAt - EXPIRY_MARGIN_MS < Date.now()) {
+      await idbDelete(STORES.uploads, entry.id);
+      return null;
+    }
+    return entry;
+  } catch (error) {
+    console.warn("Failed to read upload cache:", error);
+    return null;
+  }
+};
+
+export const rememberUpload = async (entry: Omit<CachedUpload, 'id' | 'createdAt'>): Promise<void> => {
+  try {
+    await idbPut(STORES.uploads, { ...entry, id: `${entry.providerId}:${entry.hash}`, createdAt: Date.now() });
+  } catch (error) {
+    console.warn("Failed to write upload cache:", error);
+  }
+};
+
+/**
+ * Drops every cache entry pointing at a remote file (after it was deleted or found missing).
+ */
+export const forgetUpload = async (remoteFileName: string): Promise<void> => {
+  try {
+    const entries = await idbGetAll<CachedUpload>(STORES.uploads);
+    await Promise.all(entries
+      .filter(entry => entry.remoteFileName === remoteFileName)
+      .map(entry => idbDelete(STORES.uploads, entry.id)));
+  } catch (error) {
+    console.warn("Failed to update upload cache:", error);
+  }
+};
@@ -1,16 +1,45 @@
 
 export type IssueSeverity = 'critical' | 'major' | 'minor' | 'suggestion';
-export type IssueType = 'spelling' | 'factual' | 'clarity' | 'marketing' | 'platform';
+export type IssueType =
+  | 'spelling' | 'factual' | 'clarity' | 'marketing' | 'platform'
+  | 'caption-spelling' | 'caption-mismatch' | 'caption-sync'; // Caption types need an attached caption file
+
+export type VerificationVerdict = 'confirmed' | 'refuted' | 'uncertain';
+
+// Outcome of the optional second pass over a critical/major issue
+export interface IssueVerification {
+  verdict: VerificationVerdict;
+  confidence: number; // 0..1
+  reasoning: string;
+  originalSeverity?: IssueSeverity; // Set when a refuted issue was demoted
+}
+
+// Bounding box in % of the frame, from the top-left corner
+export interface TextRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
 
 export interface Issue {
   id: string;
   timestamp: string; // "MM:SS"
+  endTimestamp?: string; // Set when the issue spans a range (e.g. an audio dip)
   type: IssueType;
+  checkId?: string; // Check that produced the issue (see services/checkRegistry); several checks share a type
   severity: IssueSeverity;
   description: string;
   found?: string;
   shouldBe?: string;
   impact?: string;
+  confidence?: number; // 0..1, the model's own certainty
+  evidence?: string; // Verbatim overlay text read or spoken sentence transcribed
+  ruleSet?: string; // Subject rule set behind a factual issue, e.g. "chemistry-v1"
+  cueIndex?: number; // 1-based caption cue a caption issue refers to
+  textRegion?: TextRegion; // Where flagged on-screen text sits; safe-zone issues are checked against it
+  verification?: IssueVerification;
+  thumbnail?: string; // JPEG data URL of the flagged frame (see services/frameSampler)
   fixed: boolean;
 }
 
@@ -23,22 +52,126 @@ export interface MarketingData {
   overallScore: number;
 }
 
+// Target platforms; rules for each live in services/platformProfiles
+export type PlatformId = 'youtube' | 'shorts' | 'reels' | 'instagram-feed' | 'linkedin' | 'x';
+
 export interface PlatformFit {
-  platform: 'YouTube' | 'Shorts' | 'Instagram' | 'Reels';
+  platform: PlatformId;
   aspectRatio: boolean;
   duration: boolean;
   thumbnail: 'low' | 'medium' | 'high';
   captions: boolean;
 }
 
+// Measured locally from the selected file (see services/mediaProbe)
+export interface MediaInfo {
+  width: number;
+  height: number;
+  aspectRatio: string; // e.g. "9:16"
+  durationSeconds: number;
+  frameRate?: number; // Only known for MP4/MOV
+  container: string; // "MP4", "MOV", "WebM", ...
+  videoCodec?: string;
+  audioCodec?: string;
+  hasAudio: boolean | null; // null when the browser cannot tell
+  fileSize: number; // bytes
+}
+
+// Hard cut found by frame differencing (see services/frameSampler)
+export interface SceneChange {
+  time: number; // seconds; first moment the new shot is visible
+  thumbnail?: string; // JPEG data URL
+}
+
+// Measured locally from the decoded soundtrack (see services/audioAnalysis)
+export interface LoudnessPoint {
+  time: number; // seconds
+  lufs: number; // Short-term (3 s) loudness ending at `time`
+}
+
+export interface AudioMetrics {
+  integratedLufs: number | null; // null when the track is silent throughout
+  peakDbfs: number | null; // null when the track is digital silence
+  loudnessLane: LoudnessPoint[]; // Downsampled for the timeline
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number; // Includes thinking tokens
+  totalTokens: number;
+}
+
+export interface UsageSummary extends TokenUsage {
+  model: string;
+  estimatedCostUsd: number;
+}
+
+export interface FailedSegment {
+  index: number;
+  start: string; // "HH:MM:SS"
+  end: string;
+  attempts: number;
+  error: string;
+}
+
+export type TranscriptLanguage = 'hi' | 'en' | 'mixed';
+
+export interface TranscriptLine {
+  start: string; // "HH:MM:SS", absolute
+  end?: string;
+  text: string; // Original script (Devanagari, Latin or code-mixed)
+  language?: TranscriptLanguage;
+}
+
+export type CaptionFormat = 'srt' | 'vtt';
+
+export interface CaptionCue {
+  index: number; // 1-based position in the file
+  start: number; // seconds, millisecond precision
+  end: number;
+  text: string; // May span several lines
+}
+
+export interface CaptionTrack {
+  fileName: string;
+  format: CaptionFormat;
+  cues: CaptionCue[];
+}
+
 export interface AnalysisResult {
   videoTitle: string;
   score: number;
   duration: string;
-  platform: string;
+  platform: PlatformId;
   issues: Issue[];
   marketing: MarketingData;
   platformFit: PlatformFit;
+  failedSegments?: FailedSegment[]; // Time ranges that were NOT checked
+  validationWarnings?: string[]; // Fields the model got wrong that were repaired or dropped
+  notices?: string[]; // What post-processing changed or skipped (suppressed findings, measured overrides); not model errors
+  usage?: UsageSummary; // Token counts and estimated cost of producing this result
+  transcript?: TranscriptLine[];
+  captions?: CaptionTrack; // Caption file attached at upload; proofread by the caption checks
+  media?: MediaInfo; // Measured file properties; platformFit.aspectRatio/duration are derived from these
+  audio?: AudioMetrics;
+  sceneChanges?: SceneChange[];
+}
+
+export interface ChannelProfile {
+  id: string;
+  channelName: string;
+  topPerformingPatterns: {
+    hookDuration: string;
+    avgViewDuration: string;
+    winningFormats: string[];
+    commonPitfalls: string[];
+  };
+  brandGuidelines: {
+    tone: string;
+    visuals: string;
+    colors: string[];
+  };
+  updatedAt?: number;
 }
 
 export interface ProcessedVideoData {